@@ -1,7 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import * as THREE from 'three';
-import { Brush, Evaluator, SUBTRACTION, ADDITION } from 'three-bvh-csg';
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
 import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
@@ -10,12 +9,46 @@ import { ObjectList } from './components/ObjectList';
 import { PropertiesPanel } from './components/PropertiesPanel';
 import { Toolbar } from './components/Toolbar';
 import { ModelLibrary } from './components/ModelLibrary';
-import { CADObject, ShapeType, DEFAULT_COLOR, WorkPlaneState, TabState } from './types';
-import { getObjectHalfHeight } from './utils';
+import { ArrayDialog } from './components/ArrayDialog';
+import { MirrorDialog } from './components/MirrorDialog';
+import { ShellDialog } from './components/ShellDialog';
+import { CADObject, ShapeType, DEFAULT_COLOR, WorkPlaneState, TabState, BooleanOpType, SketchTool, Point2, Point3, RevolveAxis } from './types';
+import { getObjectHalfHeight, findObjectById, findObjectPath, updateObjectInTree, cloneObjectTree, getObjectMatrix, applyObjectMatrix, flattenGroups } from './utils';
+import { PatternSettings, getPatternCount, getPatternTransforms, mirrorPatternParams } from './pattern';
+import { MirrorSettings, WORLD_MIRROR_NORMALS, getMirrorMatrix, getMirrorBakedLeaves } from './mirror';
+import { ShellSettings } from './shell';
+import { AlignAxis, AlignMode, AlignReference, DistributeMode, getWorldBoundingBox, computeAlignOffsets, computeDistributeOffsets } from './align';
+import { DEFAULT_SEGMENTS, BOOLEAN_OPS, ensureAttributes, createGeometry, createBrush, cacheBooleanResult, areGeometriesReady, getMirrorSymmetryAxis, transformGeometry } from './geometry';
+import { createProjectData, parseProjectData } from './project';
+import { SKETCH_TOOLS, createSketchState, addSketchPoint, closeSketchDraft, undoSketchStep, createSketchExtrudeGeometry, getWorkPlaneQuaternion, getRevolveProfile, getRevolveQuaternion } from './sketch';
+import { runBooleanInWorker, runClashCheckInWorker, runSliceInWorker, runShellInWorker, evaluateNodeResults, BooleanJob, ClashJob, SliceJob, ShellJob } from './csg_client';
 
 // Maximum history steps to keep memory usage in check
 const MAX_HISTORY = 50;
 
+// 在标签页的历史记录中追加一步（丢弃当前位置之后的重做记录），返回需要合并到标签页的字段
+const appendHistory = (tab: TabState, newObjects: CADObject[], newSelectedIds: string[]): Partial<TabState> => {
+  const newHistory = tab.history.slice(0, tab.historyIndex + 1);
+  newHistory.push({ objects: newObjects, selectedIds: newSelectedIds });
+  if (newHistory.length > MAX_HISTORY) newHistory.shift();
+  return {
+    history: newHistory,
+    historyIndex: newHistory.length - 1,
+    hasUnsavedChanges: true // Mark as dirty
+  };
+};
+
+// 把更新合并到标签页：对象发生变化（编辑、撤销/重做、运算结果等）时，之前的干涉检查报告已经过时，一并清除
+const mergeTabUpdates = (tab: TabState, updates: Partial<TabState>): TabState => ({
+  ...tab,
+  ...(updates.objects && updates.objects !== tab.objects ? { clashReport: null } : {}),
+  ...updates
+});
+
+// 检查对象列表中的这些对象是否仍然存在且未被修改（状态不可变，修改后的对象是新的引用）
+const unchangedObjects = (sources: CADObject[]) => (objects: CADObject[]) =>
+  sources.every(src => objects.find(o => o.id === src.id) === src);
+
 // 扩展Window接口以包含Electron自定义方法 - 现在已在 types/electron.d.ts 中统一定义
 
 const App: React.FC = () => {
@@ -44,11 +77,15 @@ const App: React.FC = () => {
   // 获取当前活动标签页
   const activeTab = tabs.find(tab => tab.id === activeTabId) || tabs[0];
 
+  // 最新的标签页状态：后台任务完成时据此判断参与运算的对象是否在运行期间被修改
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+
   // 更新当前活动标签页的状态
   const updateActiveTab = (updates: Partial<TabState>) => {
     setTabs(prevTabs => 
       prevTabs.map(tab => 
-        tab.id === activeTabId ? { ...tab, ...updates } : tab
+        tab.id === activeTabId ? mergeTabUpdates(tab, updates) : tab
       )
     );
   };
@@ -138,11 +175,7 @@ const App: React.FC = () => {
   const handleSaveAndCloseTab = (tabId: string) => {
     try {
       setIsLoading(true);
-      const projectData = {
-        version: "1.0",
-        timestamp: new Date().toISOString(),
-        objects: activeTab.objects
-      };
+      const projectData = createProjectData(activeTab.objects);
       const json = JSON.stringify(projectData, null, 2);
       
       // 如果在Electron环境中，使用Electron API保存文件
@@ -232,6 +265,15 @@ const App: React.FC = () => {
 
   // Model Library Modal State
   const [showLibrary, setShowLibrary] = useState(false);
+  // 阵列、镜像和抽壳对话框
+  const [showArrayDialog, setShowArrayDialog] = useState(false);
+  const [showMirrorDialog, setShowMirrorDialog] = useState(false);
+  const [showShellDialog, setShowShellDialog] = useState(false);
+
+  // 剪贴板（所有标签页共享）、粘贴偏移量以及自上次复制以来的粘贴次数
+  const [clipboard, setClipboard] = useState<CADObject[]>([]);
+  const [pasteOffset, setPasteOffset] = useState<Point3>([10, 0, 10]);
+  const pasteCountRef = useRef(0);
 
   // Panel Visibility State
   const [leftPanelOpen, setLeftPanelOpen] = useState(true);
@@ -245,22 +287,14 @@ const App: React.FC = () => {
   
   // Save a new state to history. 
   const pushHistory = (newObjects: CADObject[], newSelectedIds: string[]) => {
-    const currentEntry = { objects: newObjects, selectedIds: newSelectedIds };
-    const newHistory = activeTab.history.slice(0, activeTab.historyIndex + 1);
-    newHistory.push(currentEntry);
-    if (newHistory.length > MAX_HISTORY) newHistory.shift();
-    
-    updateActiveTab({
-      history: newHistory,
-      historyIndex: newHistory.length - 1,
-      hasUnsavedChanges: true // Mark as dirty
-    });
+    updateActiveTab(appendHistory(activeTab, newObjects, newSelectedIds));
   };
 
   const handleUndo = () => {
     if (activeTab.historyIndex > 0) {
       updateActiveTab({
         pendingOp: null,
+        sketch: null,
         workPlane: { ...activeTab.workPlane, step: 'IDLE', planeData: null, sourceObjId: null }
       });
       
@@ -279,6 +313,7 @@ const App: React.FC = () => {
     if (activeTab.historyIndex < activeTab.history.length - 1) {
       updateActiveTab({
         pendingOp: null,
+        sketch: null,
         workPlane: { ...activeTab.workPlane, step: 'IDLE', planeData: null, sourceObjId: null }
       });
       
@@ -297,174 +332,549 @@ const App: React.FC = () => {
     pushHistory(activeTab.objects, activeTab.selectedIds);
   };
 
+  // 后台任务（布尔运算、切片、抽壳、干涉检查）运行期间用户可能继续编辑、撤销或切换标签页：
+  // 结果总是基于任务所属标签页的最新状态生成（apply返回需要合并的字段，包括历史记录）；
+  // isCurrent检查参与运算的对象是否仍与任务开始时一致，不一致时放弃结果并提示用户
+  const applyJobResult = (tabId: string, isCurrent: (objects: CADObject[]) => boolean, apply: (tab: TabState) => Partial<TabState>) => {
+    const latest = tabsRef.current.find(tab => tab.id === tabId);
+    if (!latest) return;
+    if (!isCurrent(latest.objects)) {
+      setError("运算期间参与运算的对象已被修改或删除，结果已丢弃，请重新操作。");
+      return;
+    }
+    setTabs(prevTabs => prevTabs.map(tab =>
+      tab.id === tabId && isCurrent(tab.objects) ? mergeTabUpdates(tab, apply(tab)) : tab
+    ));
+  };
+
+  // 运算需要对象的准确几何体：尚未就绪时（组只在作为整体使用时才求值，布尔节点可能仍在后台计算，字体可能尚未加载）
+  // 先在后台求值（可以取消），完成后重新执行retry
+  const prepareGeometries = (objects: CADObject[], retry: () => void) => {
+    let cancelled = false;
+    const prepareJob = { cancel: () => { cancelled = true; } };
+    booleanJobRef.current = prepareJob;
+    setIsBooleanOperationRunning(true);
+    setBooleanProgress(0);
+    setBooleanTaskLabel('准备几何体');
+    evaluateNodeResults(objects).then(() => {
+      if (booleanJobRef.current === prepareJob) booleanJobRef.current = null;
+      setIsBooleanOperationRunning(false);
+      if (cancelled) return;
+      if (!areGeometriesReady(objects)) {
+        alert("几何体准备失败（文字字体无法加载或对象已被修改），请重试。");
+        return;
+      }
+      retry();
+    });
+  };
+
   // --- Core Boolean Logic ---
-  const executeBooleanOp = (op: 'UNION' | 'SUBTRACT', baseId: string, toolId: string) => {
+  // 以baseId为主对象，依次与toolIds中的所有工具对象进行布尔运算，结果生成一个布尔运算节点并只记录一次历史
+  // 参与对象中的孔对象（isHole）不参与op运算，而是在最后一次性从结果中减去
+  // 运算在Web Worker中进行，期间可以取消，取消后场景保持不变
+  const executeBooleanOp = (op: BooleanOpType, baseId: string, toolIds: string[]) => {
+    const obj1 = activeTab.objects.find(o => o.id === baseId);
+    const tools = toolIds
+      .filter(id => id !== baseId)
+      .map(id => activeTab.objects.find(o => o.id === id))
+      .filter((o): o is CADObject => !!o);
+    
+    if (!obj1 || tools.length === 0) return;
+    const lockedObj = [obj1, ...tools].find(o => o.locked);
+    if (lockedObj) {
+        alert(`对象 "${lockedObj.name}" 已锁定，无法修改。`);
+        return;
+    }
+    const operands = [obj1, ...tools];
+    if (!areGeometriesReady(operands)) {
+      prepareGeometries(operands, () => executeBooleanOp(op, baseId, toolIds));
+      return;
+    }
+    const tabId = activeTabId;
+
     // 设置布尔操作正在进行的状态
     setIsBooleanOperationRunning(true);
-    
-    // 使用setTimeout将操作移到下一个事件循环，让UI有机会更新
-    setTimeout(() => {
-      try {
-        const obj1 = activeTab.objects.find(o => o.id === baseId);
-        const obj2 = activeTab.objects.find(o => o.id === toolId);
-        
-        if (!obj1 || !obj2) {
-          setIsBooleanOperationRunning(false);
-          return;
-        }
-        if (obj1.locked) {
-            alert(`对象 "${obj1.name}" 已锁定，无法修改。`);
-            setIsBooleanOperationRunning(false);
-            return;
-        }
+    setBooleanProgress(0);
+    setBooleanTaskLabel('布尔运算中');
 
-        // 检测两个对象是否有重叠
-        if (!hasIntersection(obj1, obj2)) {
-          setError("两个对象没有重叠，无法进行布尔运算。");
-          setIsBooleanOperationRunning(false);
-          return;
-        }
+    let job: BooleanJob;
+    try {
+      job = runBooleanInWorker(op, operands, setBooleanProgress);
+    } catch (err) {
+      console.error("Error during boolean operation:", err);
+      alert("布尔运算失败，请检查对象形状。");
+      setIsBooleanOperationRunning(false);
+      return;
+    }
+    booleanJobRef.current = job;
 
-        try {
-          const geom1 = createGeometry(obj1);
-          const geom2 = createGeometry(obj2);
-
-          const brush1 = new Brush(geom1);
-          brush1.position.set(...obj1.position);
-          brush1.rotation.set(...obj1.rotation);
-          brush1.scale.set(...obj1.scale);
-          brush1.updateMatrixWorld();
-
-          const brush2 = new Brush(geom2);
-          brush2.position.set(...obj2.position);
-          brush2.rotation.set(...obj2.rotation);
-          brush2.scale.set(...obj2.scale);
-          brush2.updateMatrixWorld();
-
-          const evaluator = new Evaluator();
-          evaluator.attributes = ['position', 'normal']; 
-          evaluator.useGroups = false; 
-          
-          const csgOp = op === 'UNION' ? ADDITION : SUBTRACTION;
-          const result = evaluator.evaluate(brush1, brush2, csgOp);
-
-          let resultGeometry = result.geometry;
-          resultGeometry = mergeVertices(resultGeometry, 1e-4);
-          resultGeometry.computeVertexNormals();
-          if (!resultGeometry.attributes.uv) {
-            ensureAttributes(resultGeometry);
-          }
+    job.promise.then((outcome) => {
+      if (outcome.type === 'cancelled') return;
 
-          // 计算布尔运算结果的几何中心
-          const tempMesh = new THREE.Mesh(resultGeometry);
-          const boundingBox = new THREE.Box3().setFromObject(tempMesh);
-          const center = new THREE.Vector3();
-          boundingBox.getCenter(center);
-
-          // 将几何体的中心移到原点（即相对于其父对象移动到中心的相反位置）
-          resultGeometry = resultGeometry.clone();
-          resultGeometry.translate(-center.x, -center.y, -center.z);
-
-          const json = resultGeometry.toJSON();
-          const id = uuidv4();
-
-          const newObj: CADObject = {
-            id,
-            name: `${obj1.name} ${op === 'UNION' ? '∪' : '-'} ${obj2.name}`,
-            type: 'custom',
-            position: [center.x, center.y, center.z], // 使用几何中心作为新对象的位置
-            rotation: [0, 0, 0],
-            scale: [1, 1, 1],
-            color: obj1.color,
-            params: {},
-            geometryData: json,
-            locked: false
-          };
-
-          const nextObjects = [
-            ...activeTab.objects.filter(o => o.id !== obj1.id && o.id !== obj2.id),
-            newObj
-          ];
-          const nextSelected = [id];
+      if (outcome.type === 'isolated') {
+        // 检测对象是否有重叠：合并时工具对象只需与任一其他参与对象重叠，切割/相交时必须与主对象重叠，孔对象必须与某个实体重叠
+        setError(tools.length === 1
+          ? "两个对象没有重叠，无法进行布尔运算。"
+          : `以下对象没有与其他对象重叠，无法进行布尔运算：${outcome.indices.map(i => operands[i].name).join('、')}`);
+        return;
+      }
+      if (outcome.type === 'empty') {
+        setError("布尔运算结果为空，请检查对象是否重叠。");
+        return;
+      }
 
-          updateActiveTab({
-            objects: nextObjects,
-            selectedIds: nextSelected
-          });
-          pushHistory(nextObjects, nextSelected);
-          
-          if (activeTab.workPlane.step === 'ACTIVE') {
-              updateActiveTab({
-                workPlane: { ...activeTab.workPlane, sourceObjId: id }
-              });
-          }
+      // 用结果的几何中心作为布尔节点的位置
+      const resultGeometry = outcome.geometry;
+      const center = new THREE.Vector3();
+      resultGeometry.boundingBox!.getCenter(center);
+      resultGeometry.translate(-center.x, -center.y, -center.z);
+      resultGeometry.computeBoundingBox();
+      resultGeometry.computeBoundingSphere();
+
+      const id = uuidv4();
+      const toolName = tools.length === 1 ? tools[0].name : `${tools.length} 个对象`;
+
+      // 参与运算的对象保留为子对象（变换相对于节点），之后修改子对象的参数或变换时节点会重新求值
+      const children = operands.map(o => ({
+        ...o,
+        position: [o.position[0] - center.x, o.position[1] - center.y, o.position[2] - center.z] as [number, number, number]
+      }));
+      cacheBooleanResult(children, resultGeometry);
+
+      // 孔对象最后统一减去，结果沿用第一个实体对象的颜色；全部为孔时结果仍是一个孔
+      const firstSolid = operands.find(o => !o.isHole);
+      const newObj: CADObject = {
+        id,
+        name: `${obj1.name} ${BOOLEAN_OPS[op].symbol} ${toolName}`,
+        type: 'boolean',
+        position: [center.x, center.y, center.z],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        color: (firstSolid || obj1).color,
+        params: {},
+        booleanOp: op,
+        children,
+        locked: false,
+        isHole: !firstSolid
+      };
 
-        } catch (e) {
-          console.error("Boolean operation failed", e);
-          alert("布尔运算失败，请检查对象形状。");
-        } finally {
-          // 操作完成后重置状态
-          setIsBooleanOperationRunning(false);
-        }
-      } catch (err) {
-        console.error("Error during boolean operation:", err);
-        setIsBooleanOperationRunning(false);
-      }
-    }, 0);
+      const consumedIds = operands.map(o => o.id);
+      applyJobResult(tabId, unchangedObjects(operands), tab => {
+        const nextObjects = [
+          ...tab.objects.filter(o => !consumedIds.includes(o.id)),
+          newObj
+        ];
+        const nextSelected = [id];
+        return {
+          objects: nextObjects,
+          selectedIds: nextSelected,
+          ...appendHistory(tab, nextObjects, nextSelected),
+          workPlane: tab.workPlane.step === 'ACTIVE' ? { ...tab.workPlane, sourceObjId: id } : tab.workPlane
+        };
+      });
+    }).catch((e) => {
+      console.error("Boolean operation failed", e);
+      alert("布尔运算失败，请检查对象形状。");
+    }).finally(() => {
+      // 操作完成后重置状态
+      if (booleanJobRef.current === job) booleanJobRef.current = null;
+      setIsBooleanOperationRunning(false);
+      setBooleanProgress(0);
+    });
+  };
+
+  // 取消正在进行的布尔运算或干涉检查
+  const cancelBooleanOp = () => {
+    booleanJobRef.current?.cancel();
+  };
+
+  // 将世界坐标系中的几何体包装为custom对象：几何体中心移到原点，中心位置作为对象位置
+  const createCustomObjectFromWorldGeometry = (geometry: THREE.BufferGeometry, name: string, color: string): CADObject => {
+    geometry.computeBoundingBox();
+    const center = new THREE.Vector3();
+    geometry.boundingBox!.getCenter(center);
+    geometry.translate(-center.x, -center.y, -center.z);
+    return {
+      id: uuidv4(),
+      name,
+      type: 'custom',
+      position: [center.x, center.y, center.z],
+      rotation: [0, 0, 0],
+      scale: [1, 1, 1],
+      color,
+      params: {},
+      geometryData: geometry.toJSON(),
+      locked: false
+    };
   };
 
-  // 检测两个对象是否相交的函数
-  const hasIntersection = (obj1: CADObject, obj2: CADObject): boolean => {
+  // 切片：用当前工作平面把选中对象切成两个封闭的custom对象（记录为一次历史）
+  const handleSlice = () => {
+    if (isBooleanOperationRunning) return;
+    const plane = activeTab.workPlane.planeData;
+    if (activeTab.workPlane.step !== 'ACTIVE' || !plane) {
+      alert("请先设定工作平面作为切割平面");
+      return;
+    }
+    const obj = activeTab.selectedIds.length === 1 ? activeTab.objects.find(o => o.id === activeTab.selectedIds[0]) : undefined;
+    if (!obj) {
+      alert("请先选择一个要切割的对象");
+      return;
+    }
+    if (obj.locked) {
+      alert(`对象 "${obj.name}" 已锁定，无法修改。`);
+      return;
+    }
+    if (!areGeometriesReady([obj])) {
+      prepareGeometries([obj], handleSlice);
+      return;
+    }
+
+    const tabId = activeTabId;
+    setIsBooleanOperationRunning(true);
+    setBooleanProgress(0);
+    setBooleanTaskLabel('切片中');
+
+    let job: SliceJob;
     try {
-      const geom1 = createGeometry(obj1);
-      const geom2 = createGeometry(obj2);
-
-      // 使用边界框进行快速预检测
-      const tempMesh1 = new THREE.Mesh(geom1);
-      tempMesh1.position.set(...obj1.position);
-      tempMesh1.rotation.set(...obj1.rotation);
-      tempMesh1.scale.set(...obj1.scale);
-      tempMesh1.updateMatrixWorld();
-      
-      const tempMesh2 = new THREE.Mesh(geom2);
-      tempMesh2.position.set(...obj2.position);
-      tempMesh2.rotation.set(...obj2.rotation);
-      tempMesh2.scale.set(...obj2.scale);
-      tempMesh2.updateMatrixWorld();
-
-      const bbox1 = new THREE.Box3().setFromObject(tempMesh1);
-      const bbox2 = new THREE.Box3().setFromObject(tempMesh2);
-      
-      if (!bbox1.intersectsBox(bbox2)) {
-        return false; // 边界框不相交，几何体肯定不相交
+      job = runSliceInWorker(obj, { position: plane.position, normal: plane.normal }, setBooleanProgress);
+    } catch (err) {
+      console.error("Error during slice:", err);
+      alert("切片失败，请检查对象形状。");
+      setIsBooleanOperationRunning(false);
+      return;
+    }
+    booleanJobRef.current = job;
+
+    job.promise.then((outcome) => {
+      if (outcome.type === 'cancelled') return;
+      const [front, back] = outcome.pieces;
+      if (!front || !back) {
+        setError("切割平面没有穿过该对象。");
+        return;
       }
+      const pieces = [
+        createCustomObjectFromWorldGeometry(front, `${obj.name} 切片1`, obj.color),
+        createCustomObjectFromWorldGeometry(back, `${obj.name} 切片2`, obj.color)
+      ];
+      applyJobResult(tabId, unchangedObjects([obj]), tab => {
+        const nextObjects = [
+          ...tab.objects.filter(o => o.id !== obj.id),
+          ...pieces
+        ];
+        const nextSelected = pieces.map(p => p.id);
+        return {
+          objects: nextObjects,
+          selectedIds: nextSelected,
+          ...appendHistory(tab, nextObjects, nextSelected),
+          workPlane: tab.workPlane.sourceObjId === obj.id
+            ? { ...tab.workPlane, sourceObjId: null }
+            : tab.workPlane
+        };
+      });
+    }).catch((e) => {
+      console.error("Slice failed", e);
+      alert("切片失败，请检查对象形状。");
+    }).finally(() => {
+      if (booleanJobRef.current === job) booleanJobRef.current = null;
+      setIsBooleanOperationRunning(false);
+      setBooleanProgress(0);
+    });
+  };
 
-      // 边界框相交，进行精确的交集检测
-      const brush1 = new Brush(geom1);
-      brush1.position.set(...obj1.position);
-      brush1.rotation.set(...obj1.rotation);
-      brush1.scale.set(...obj1.scale);
+  // 阵列：为每个选中的顶层对象生成关联阵列节点（源对象成为节点的子对象）或独立副本，只记录一次历史
+  const handleCreateArray = (settings: PatternSettings) => {
+    const sources = activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id));
+    if (sources.length === 0) {
+      alert("请先选择要阵列的对象");
+      return;
+    }
+    const lockedObj = sources.find(o => o.locked);
+    if (lockedObj) {
+      alert(`对象 "${lockedObj.name}" 已锁定，无法修改。`);
+      return;
+    }
+    const isCircular = settings.patternType === 'circular';
+    if (isCircular && !(settings.angle > 0 && settings.angle <= 360)) {
+      alert("环形阵列的总角度必须在 0° 到 360° 之间");
+      return;
+    }
+    if (isCircular && settings.axis.every(v => v === 0)) {
+      alert("旋转轴方向不能为零向量");
+      return;
+    }
 
-      const brush2 = new Brush(geom2);
-      brush2.position.set(...obj2.position);
-      brush2.rotation.set(...obj2.rotation);
-      brush2.scale.set(...obj2.scale);
+    const params: CADObject['params'] = {
+      patternType: settings.patternType,
+      count: getPatternCount({ count: settings.count }),
+      ...(isCircular ? { axis: settings.axis, angle: settings.angle } : { spacing: settings.spacing })
+    };
+    // 环形阵列绕旋转中心旋转：阵列节点放在旋转中心，源对象相对于它偏移
+    const center = isCircular ? settings.center : [0, 0, 0] as Point3;
+
+    let nextObjects: CADObject[];
+    let nextSelected: string[];
+    if (settings.linked) {
+      const nodes = sources.map(src => {
+        const origin = isCircular ? center : src.position;
+        const child: CADObject = {
+          ...src,
+          position: [src.position[0] - origin[0], src.position[1] - origin[1], src.position[2] - origin[2]]
+        };
+        const node: CADObject = {
+          id: uuidv4(),
+          name: `${src.name} 阵列`,
+          type: 'pattern',
+          position: [...origin] as Point3,
+          rotation: [0, 0, 0],
+          scale: [1, 1, 1],
+          color: src.color,
+          params,
+          children: [child],
+          locked: false,
+          isHole: src.isHole
+        };
+        return node;
+      });
+      const consumedIds = sources.map(o => o.id);
+      nextObjects = [...activeTab.objects.filter(o => !consumedIds.includes(o.id)), ...nodes];
+      nextSelected = nodes.map(n => n.id);
+    } else {
+      const toCenter = new THREE.Matrix4().makeTranslation(center[0], center[1], center[2]);
+      const fromCenter = new THREE.Matrix4().makeTranslation(-center[0], -center[1], -center[2]);
+      const copies = sources.flatMap(src =>
+        getPatternTransforms(params).slice(1).map((transform, i) => {
+          const matrix = toCenter.clone().multiply(transform).multiply(fromCenter).multiply(getObjectMatrix(src));
+          return { ...applyObjectMatrix(cloneObjectTree(src), matrix), name: `${src.name} (${i + 2})`, locked: false };
+        })
+      );
+      nextObjects = [...activeTab.objects, ...copies];
+      nextSelected = [...sources.map(o => o.id), ...copies.map(c => c.id)];
+    }
 
-      const evaluator = new Evaluator();
-      evaluator.attributes = ['position', 'normal'];
-      evaluator.useGroups = false;
+    updateActiveTab({
+      objects: nextObjects,
+      selectedIds: nextSelected,
+      workPlane: settings.linked && sources.some(o => o.id === activeTab.workPlane.sourceObjId)
+        ? { ...activeTab.workPlane, sourceObjId: null }
+        : activeTab.workPlane
+    });
+    pushHistory(nextObjects, nextSelected);
+    setShowArrayDialog(false);
+  };
 
-      // 计算交集
-      const intersectionResult = evaluator.evaluate(brush1, brush2, ADDITION);
-      
-      // 检查交集结果是否有有效的几何数据
-      const positionAttribute = intersectionResult.geometry.attributes.position;
-      return positionAttribute && positionAttribute.count > 0;
-    } catch (error) {
-      // 如果检测失败，仍然执行布尔运算
-      console.warn("交集检测失败，继续执行布尔运算", error);
-      return true;
+  // 镜像：把选中的顶层对象关于世界坐标平面或工作平面镜像，可保留原对象（生成镜像副本），只记录一次历史
+  // 关于局部坐标平面对称的体素保持参数化，其余对象烘焙为环绕方向正确的custom网格
+  const handleMirror = (settings: MirrorSettings) => {
+    const sources = activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id));
+    if (sources.length === 0) {
+      alert("请先选择要镜像的对象");
+      return;
+    }
+    if (!settings.copy) {
+      const lockedObj = sources.find(o => o.locked);
+      if (lockedObj) {
+        alert(`对象 "${lockedObj.name}" 已锁定，无法修改。`);
+        return;
+      }
+    }
+    const bakedLeaves = getMirrorBakedLeaves(sources);
+    if (!areGeometriesReady(bakedLeaves)) {
+      prepareGeometries(bakedLeaves, () => handleMirror(settings));
+      return;
+    }
+
+    let point: Point3 = [0, 0, 0];
+    let normal: Point3;
+    if (settings.plane === 'workplane') {
+      const plane = activeTab.workPlane.planeData;
+      if (activeTab.workPlane.step !== 'ACTIVE' || !plane) {
+        alert("请先设定工作平面作为镜像平面");
+        return;
+      }
+      point = plane.position;
+      normal = plane.normal;
+    } else {
+      normal = WORLD_MIRROR_NORMALS[settings.plane];
+      if (settings.throughSelection) {
+        const bbox = new THREE.Box3();
+        sources.forEach(obj => bbox.union(new THREE.Box3().setFromObject(createBrush(obj))));
+        point = bbox.getCenter(new THREE.Vector3()).toArray() as Point3;
+      }
+    }
+    const mirror = getMirrorMatrix(point, normal);
+
+    // 镜像 = 旋转后沿局部对称平面翻转：新旋转为 反射 × 原旋转 × 局部翻转（行列式为正），翻转不改变对称的形状
+    // 布尔运算节点、阵列节点和组沿局部x轴翻转，该翻转再递归应用到子对象上，层级保持不变；没有对称平面的对象烘焙为网格
+    const mirrorObject = (obj: CADObject, reflection: THREE.Matrix4): CADObject => {
+      const axis = obj.children ? 0 : getMirrorSymmetryAxis(obj);
+      if (axis === null) {
+        const geometry = transformGeometry(createGeometry(obj), reflection.clone().multiply(getObjectMatrix(obj)));
+        return { ...createCustomObjectFromWorldGeometry(geometry, obj.name, obj.color), id: obj.id, isHole: obj.isHole, locked: obj.locked };
+      }
+      const flip = new THREE.Vector3(1, 1, 1).setComponent(axis, -1);
+      const flipMatrix = new THREE.Matrix4().makeScale(flip.x, flip.y, flip.z);
+      const rotation = new THREE.Matrix4()
+        .extractRotation(reflection)
+        .multiply(new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(...obj.rotation)))
+        .multiply(flipMatrix);
+      const euler = new THREE.Euler().setFromRotationMatrix(rotation);
+      const position = new THREE.Vector3(...obj.position).applyMatrix4(reflection);
+      const mirrored: CADObject = {
+        ...obj,
+        position: position.toArray() as Point3,
+        rotation: [euler.x, euler.y, euler.z] as Point3
+      };
+      if (!obj.children) return mirrored;
+      return {
+        ...mirrored,
+        params: obj.type === 'pattern' ? mirrorPatternParams(obj.params, flip) : obj.params,
+        children: obj.children.map(child => mirrorObject(child, flipMatrix))
+      };
+    };
+
+    let mirrored: CADObject[];
+    try {
+      mirrored = sources.map(obj => ({
+        ...mirrorObject(settings.copy ? cloneObjectTree(obj) : obj, mirror),
+        name: settings.copy ? `${obj.name} 镜像` : obj.name,
+        locked: false
+      }));
+    } catch (e) {
+      console.error("Mirror failed", e);
+      alert("镜像失败，请检查对象形状。");
+      return;
+    }
+
+    const nextObjects = settings.copy
+      ? [...activeTab.objects, ...mirrored]
+      : activeTab.objects.map(o => mirrored.find(m => m.id === o.id) || o);
+    const nextSelected = mirrored.map(m => m.id);
+    updateActiveTab({ objects: nextObjects, selectedIds: nextSelected });
+    pushHistory(nextObjects, nextSelected);
+    setShowMirrorDialog(false);
+  };
+
+  // 抽壳：把选中对象挖空为给定壁厚的custom实体，可在一个方向上开口（记录为一次历史）
+  const handleShell = (settings: ShellSettings) => {
+    if (isBooleanOperationRunning) return;
+    const obj = activeTab.selectedIds.length === 1 ? activeTab.objects.find(o => o.id === activeTab.selectedIds[0]) : undefined;
+    if (!obj) {
+      alert("请先选择一个要抽壳的对象");
+      return;
+    }
+    if (obj.locked) {
+      alert(`对象 "${obj.name}" 已锁定，无法修改。`);
+      return;
+    }
+    if (!areGeometriesReady([obj])) {
+      prepareGeometries([obj], () => handleShell(settings));
+      return;
+    }
+    const size = new THREE.Box3().setFromObject(createBrush(obj)).getSize(new THREE.Vector3());
+    const maxThickness = Math.min(size.x, size.y, size.z) / 2;
+    if (!(settings.thickness > 0 && settings.thickness < maxThickness)) {
+      alert(`壁厚必须大于0且小于 ${maxThickness.toFixed(2)}（对象最小尺寸的一半）`);
+      return;
+    }
+
+    const tabId = activeTabId;
+    setShowShellDialog(false);
+    setIsBooleanOperationRunning(true);
+    setBooleanProgress(0);
+    setBooleanTaskLabel('抽壳中');
+
+    let job: ShellJob;
+    try {
+      job = runShellInWorker(obj, settings.thickness, settings.opening, setBooleanProgress);
+    } catch (err) {
+      console.error("Error during shell:", err);
+      alert("抽壳失败，请检查对象形状。");
+      setIsBooleanOperationRunning(false);
+      return;
+    }
+    booleanJobRef.current = job;
+
+    job.promise.then((outcome) => {
+      if (outcome.type === 'cancelled') return;
+      if (outcome.type === 'empty') {
+        setError("抽壳结果为空，请减小壁厚。");
+        return;
+      }
+      const shell: CADObject = {
+        ...createCustomObjectFromWorldGeometry(outcome.geometry, `${obj.name} 抽壳`, obj.color),
+        isHole: obj.isHole
+      };
+      applyJobResult(tabId, unchangedObjects([obj]), tab => {
+        const nextObjects = tab.objects.map(o => o.id === obj.id ? shell : o);
+        const nextSelected = [shell.id];
+        return {
+          objects: nextObjects,
+          selectedIds: nextSelected,
+          ...appendHistory(tab, nextObjects, nextSelected),
+          workPlane: tab.workPlane.sourceObjId === obj.id
+            ? { ...tab.workPlane, sourceObjId: null }
+            : tab.workPlane
+        };
+      });
+    }).catch((e) => {
+      console.error("Shell failed", e);
+      alert("抽壳失败，请检查对象形状。");
+    }).finally(() => {
+      if (booleanJobRef.current === job) booleanJobRef.current = null;
+      setIsBooleanOperationRunning(false);
+      setBooleanProgress(0);
+    });
+  };
+
+  // 干涉检查：找出当前标签页中所有相互穿透的对象对，并计算交集体积；组展开为各个成员分别检查
+  const handleClashCheck = () => {
+    if (isBooleanOperationRunning) return;
+    const tabId = activeTabId;
+    const topLevelObjects = activeTab.objects;
+    const objects = flattenGroups(topLevelObjects);
+    if (objects.length < 2) {
+      alert("至少需要两个对象才能进行干涉检查");
+      return;
+    }
+    if (!areGeometriesReady(objects)) {
+      prepareGeometries(objects, handleClashCheck);
+      return;
     }
+
+    setIsBooleanOperationRunning(true);
+    setBooleanProgress(0);
+    setBooleanTaskLabel('干涉检查中');
+
+    let job: ClashJob;
+    try {
+      job = runClashCheckInWorker(objects, setBooleanProgress);
+    } catch (err) {
+      console.error("Error during clash check:", err);
+      alert("干涉检查失败，请检查对象形状。");
+      setIsBooleanOperationRunning(false);
+      return;
+    }
+    booleanJobRef.current = job;
+
+    job.promise.then((outcome) => {
+      if (outcome.type === 'cancelled') return;
+      // 报告针对整个场景：检查期间任何对象被修改、添加或删除时结果都已过时
+      applyJobResult(tabId, current => current === topLevelObjects, () => ({
+        clashReport: outcome.clashes.map(c => ({
+          aId: objects[c.a].id,
+          bId: objects[c.b].id,
+          volume: c.volume
+        }))
+      }));
+    }).catch((e) => {
+      console.error("Clash check failed", e);
+      alert("干涉检查失败，请检查对象形状。");
+    }).finally(() => {
+      if (booleanJobRef.current === job) booleanJobRef.current = null;
+      setIsBooleanOperationRunning(false);
+      setBooleanProgress(0);
+    });
   };
 
   // --- Work Plane Math & Logic ---
@@ -472,6 +882,7 @@ const App: React.FC = () => {
   const initWorkPlaneMode = () => {
     updateActiveTab({
       pendingOp: null,
+      sketch: null,
       workPlane: {
         step: 'PICKING_TARGET',
         planeData: null,
@@ -484,10 +895,120 @@ const App: React.FC = () => {
 
   const cancelWorkPlane = () => {
     updateActiveTab({
+      sketch: null,
       workPlane: { step: 'IDLE', planeData: null, sourceObjId: null, flipOrientation: false }
     });
   };
 
+  // --- Sketch ---
+  // 草图：在激活的工作平面上绘制闭合轮廓，拉伸为custom实体（只有拉伸结果记录历史）
+
+  const startSketch = () => {
+    if (activeTab.workPlane.step !== 'ACTIVE' || !activeTab.workPlane.planeData) {
+      alert("请先设定工作平面作为草图平面");
+      return;
+    }
+    updateActiveTab({ sketch: createSketchState(), pendingOp: null, selectedIds: [] });
+  };
+
+  const cancelSketch = () => {
+    updateActiveTab({ sketch: null });
+  };
+
+  const applySketchResult = (result: { sketch: NonNullable<TabState['sketch']>; error?: string }) => {
+    updateActiveTab({ sketch: result.sketch });
+    if (result.error) setError(result.error);
+  };
+
+  const handleSketchClick = (point: Point2) => {
+    if (!activeTab.sketch) return;
+    applySketchResult(addSketchPoint(activeTab.sketch, point));
+  };
+
+  const handleSketchTool = (tool: SketchTool) => {
+    if (!activeTab.sketch) return;
+    // 切换到矩形/圆时丢弃未闭合的折线；折线和圆弧可以在同一条链中交替使用
+    const keepDraft = (tool === 'polyline' || tool === 'arc') && (activeTab.sketch.tool === 'polyline' || activeTab.sketch.tool === 'arc');
+    updateActiveTab({
+      sketch: { ...activeTab.sketch, tool, draft: keepDraft ? activeTab.sketch.draft : [], arcMid: null }
+    });
+  };
+
+  const handleExtrudeSketch = () => {
+    const sketch = activeTab.sketch;
+    const plane = activeTab.workPlane.planeData;
+    if (!sketch || !plane) return;
+    if (sketch.profiles.length === 0) {
+      alert("草图中没有闭合轮廓，无法拉伸");
+      return;
+    }
+    if (!sketch.extrudeHeight) {
+      alert("拉伸高度不能为0");
+      return;
+    }
+
+    // 几何体位于工作平面局部坐标系：中心移到原点，对象的旋转与工作平面一致
+    const geometry = createSketchExtrudeGeometry(sketch.profiles, sketch.extrudeHeight);
+    const center = new THREE.Vector3();
+    geometry.boundingBox!.getCenter(center);
+    geometry.translate(-center.x, -center.y, -center.z);
+    const quaternion = getWorkPlaneQuaternion(plane.normal);
+    const position = center.applyQuaternion(quaternion).add(new THREE.Vector3(...plane.position));
+    const euler = new THREE.Euler().setFromQuaternion(quaternion);
+
+    const newObj: CADObject = {
+      id: uuidv4(),
+      name: `拉伸 ${activeTab.objects.length + 1}`,
+      type: 'custom',
+      position: [position.x, position.y, position.z],
+      rotation: [euler.x, euler.y, euler.z],
+      scale: [1, 1, 1],
+      color: DEFAULT_COLOR,
+      params: {},
+      geometryData: geometry.toJSON(),
+      locked: false
+    };
+    const nextObjects = [...activeTab.objects, newObj];
+    const nextSelected = [newObj.id];
+    updateActiveTab({ objects: nextObjects, selectedIds: nextSelected, sketch: null });
+    pushHistory(nextObjects, nextSelected);
+  };
+
+  // 把草图轮廓绕草图平面的x/y轴旋转，生成轮廓可编辑的参数化旋转体
+  const handleRevolveSketch = () => {
+    const sketch = activeTab.sketch;
+    const plane = activeTab.workPlane.planeData;
+    if (!sketch || !plane) return;
+    const result = getRevolveProfile(sketch);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    if (!(sketch.revolveAngle > 0 && sketch.revolveAngle <= 360)) {
+      alert("旋转角度必须在0到360度之间");
+      return;
+    }
+
+    // 对象原点位于旋转轴上（工作平面原点），局部y轴为旋转轴
+    const quaternion = getRevolveQuaternion(plane.normal, sketch.revolveAxis, result.side);
+    const euler = new THREE.Euler().setFromQuaternion(quaternion);
+    const newObj: CADObject = {
+      id: uuidv4(),
+      name: `旋转体 ${activeTab.objects.length + 1}`,
+      type: 'revolve',
+      position: [plane.position[0], plane.position[1], plane.position[2]],
+      rotation: [euler.x, euler.y, euler.z],
+      scale: [1, 1, 1],
+      color: DEFAULT_COLOR,
+      params: { profile: result.profile, angle: sketch.revolveAngle, segments: DEFAULT_SEGMENTS },
+      locked: false
+    };
+    const nextObjects = [...activeTab.objects, newObj];
+    const nextSelected = [newObj.id];
+    updateActiveTab({ objects: nextObjects, selectedIds: nextSelected, sketch: null });
+    pushHistory(nextObjects, nextSelected);
+  };
+
   const alignObjectToPlane = (
     sourceId: string, 
     localPoint: THREE.Vector3, 
@@ -704,7 +1225,7 @@ const App: React.FC = () => {
         return;
       }
       if (id === activeTab.pendingOp.baseId) return;
-      executeBooleanOp(activeTab.pendingOp.type, activeTab.pendingOp.baseId, id);
+      executeBooleanOp(activeTab.pendingOp.type, activeTab.pendingOp.baseId, [id]);
       updateActiveTab({ pendingOp: null });
       return;
     }
@@ -796,32 +1317,35 @@ const App: React.FC = () => {
         newObj = { ...baseProps, name: `方块 ${activeTab.objects.length + 1}`, params: { width: 50, height: 50, depth: 50 } };
         break;
       case 'sphere':
-        newObj = { ...baseProps, name: `球体 ${activeTab.objects.length + 1}`, params: { radius: 25 } };
+        newObj = { ...baseProps, name: `球体 ${activeTab.objects.length + 1}`, params: { radius: 25, segments: DEFAULT_SEGMENTS } };
         break;
       case 'cylinder':
-        newObj = { ...baseProps, name: `圆柱 ${activeTab.objects.length + 1}`, params: { radius: 20, height: 60 } };
+        newObj = { ...baseProps, name: `圆柱 ${activeTab.objects.length + 1}`, params: { radius: 20, height: 60, segments: DEFAULT_SEGMENTS } };
         break;
       case 'cone':
-        newObj = { ...baseProps, name: `圆锥 ${activeTab.objects.length + 1}`, params: { radius: 20, height: 60 } };
+        newObj = { ...baseProps, name: `圆锥 ${activeTab.objects.length + 1}`, params: { radius: 20, height: 60, segments: DEFAULT_SEGMENTS } };
         break;
       case 'prism':
         newObj = { ...baseProps, name: `三棱柱 ${activeTab.objects.length + 1}`, params: { radius: 30, height: 60 } };
         break;
       case 'hemisphere':
-        newObj = { ...baseProps, name: `半球体 ${activeTab.objects.length + 1}`, params: { radius: 25 } };
+        newObj = { ...baseProps, name: `半球体 ${activeTab.objects.length + 1}`, params: { radius: 25, segments: DEFAULT_SEGMENTS } };
         break;
       case 'half_cylinder':
-        newObj = { ...baseProps, name: `半圆柱 ${activeTab.objects.length + 1}`, params: { radius: 20, height: 60 } };
+        newObj = { ...baseProps, name: `半圆柱 ${activeTab.objects.length + 1}`, params: { radius: 20, height: 60, segments: DEFAULT_SEGMENTS } };
         if (!isAligned) {
             newObj.rotation = [0, 0, Math.PI / 2];
         }
         break;
-      case 'torus':
-        newObj = { ...baseProps, name: `空心圆柱 ${activeTab.objects.length + 1}`, params: { radius: 30, tube: 15, height: 40 }};
+      case 'ring':
+        newObj = { ...baseProps, name: `空心圆柱 ${activeTab.objects.length + 1}`, params: { radius: 30, tube: 15, height: 40, segments: DEFAULT_SEGMENTS }};
         if (!isAligned) {
             newObj.rotation = [0, 0, 0];
         }
         break;
+      case 'torus':
+        newObj = { ...baseProps, name: `圆环 ${activeTab.objects.length + 1}`, params: { radius: 25, tube: 8, angle: 360, segments: DEFAULT_SEGMENTS } };
+        break;
       case 'text':
         newObj = { 
             ...baseProps, 
@@ -829,6 +1353,52 @@ const App: React.FC = () => {
             params: { text: "3D Text", radius: 20, height: 5 }
         };
         break;
+      case 'pyramid':
+        newObj = { ...baseProps, name: `四棱锥 ${activeTab.objects.length + 1}`, params: { width: 50, depth: 50, height: 50 } };
+        break;
+      case 'wedge':
+        newObj = { ...baseProps, name: `楔形 ${activeTab.objects.length + 1}`, params: { width: 50, height: 30, depth: 40 } };
+        break;
+      case 'capsule':
+        newObj = { ...baseProps, name: `胶囊 ${activeTab.objects.length + 1}`, params: { radius: 15, height: 60, segments: DEFAULT_SEGMENTS } };
+        break;
+      case 'ellipsoid':
+        newObj = { ...baseProps, name: `椭球 ${activeTab.objects.length + 1}`, params: { width: 60, height: 30, depth: 40, segments: DEFAULT_SEGMENTS } };
+        break;
+      case 'polygon_prism':
+        newObj = { ...baseProps, name: `多棱柱 ${activeTab.objects.length + 1}`, params: { radius: 20, height: 30, sides: 6 } };
+        break;
+      case 'star':
+        newObj = { ...baseProps, name: `星形 ${activeTab.objects.length + 1}`, params: { radius: 30, innerRadius: 12, height: 10, sides: 5 } };
+        break;
+      case 'tube':
+        newObj = { ...baseProps, name: `圆管 ${activeTab.objects.length + 1}`, params: { radius: 20, thickness: 3, height: 60, segments: DEFAULT_SEGMENTS } };
+        break;
+      case 'gear':
+        newObj = { ...baseProps, name: `齿轮 ${activeTab.objects.length + 1}`, params: { module: 2, teeth: 20, pressureAngle: 20, height: 10, bore: 5, segments: DEFAULT_SEGMENTS } };
+        break;
+      case 'thread':
+        newObj = {
+            ...baseProps,
+            name: `螺纹 ${activeTab.objects.length + 1}`,
+            params: { threadType: 'rod', diameter: 8, pitch: 1.25, height: 20, tolerance: 0.2, width: 13, segments: 48 }
+        };
+        break;
+      case 'sweep':
+        newObj = {
+            ...baseProps,
+            name: `扫掠体 ${activeTab.objects.length + 1}`,
+            params: {
+              path: [[-30, 0, 0], [-30, 20, 0], [30, 20, 0], [30, 0, 0]],
+              pathType: 'spline',
+              section: 'circle',
+              radius: 4,
+              width: 8,
+              height: 4,
+              segments: DEFAULT_SEGMENTS
+            }
+        };
+        break;
       default:
         return;
     }
@@ -898,6 +1468,245 @@ const App: React.FC = () => {
     }
   };
 
+  // --- Clipboard ---
+  // 剪贴板在所有标签页之间共享；粘贴时深拷贝并分配新的id，连续粘贴时每次多偏移一个pasteOffset
+
+  // 选中对象的世界坐标副本（布尔运算节点、阵列节点或组中的子对象换算到世界坐标系后作为独立对象）
+  // 祖先同样被选中的对象已包含在祖先中，不再单独返回
+  const getSelectionSnapshot = (): CADObject[] => activeTab.selectedIds
+    .map(id => findObjectPath(activeTab.objects, id))
+    .filter(path => path.length > 0 && !path.slice(0, -1).some(o => activeTab.selectedIds.includes(o.id)))
+    .map(path => {
+      const obj = path[path.length - 1];
+      if (path.length === 1) return obj;
+      const matrix = path.reduce((m, o) => m.multiply(getObjectMatrix(o)), new THREE.Matrix4());
+      return applyObjectMatrix(obj, matrix);
+    });
+
+  // 把对象加入当前标签页并选中它们，只记录一次历史
+  const insertObjects = (newObjects: CADObject[]) => {
+    const nextObjects = [...activeTab.objects, ...newObjects];
+    const nextSelected = newObjects.map(o => o.id);
+    updateActiveTab({ objects: nextObjects, selectedIds: nextSelected, pendingOp: null });
+    pushHistory(nextObjects, nextSelected);
+  };
+
+  // 深拷贝对象（新的id、保留geometryData），并偏移steps个粘贴偏移量；副本总是未锁定的
+  const cloneWithOffset = (objects: CADObject[], steps: number): CADObject[] => objects.map(obj => {
+    const clone = cloneObjectTree(obj);
+    return {
+      ...clone,
+      position: [
+        obj.position[0] + pasteOffset[0] * steps,
+        obj.position[1] + pasteOffset[1] * steps,
+        obj.position[2] + pasteOffset[2] * steps
+      ] as Point3,
+      locked: false
+    };
+  });
+
+  const handleCopy = () => {
+    const snapshot = getSelectionSnapshot();
+    if (snapshot.length === 0) return;
+    setClipboard(snapshot);
+    pasteCountRef.current = 0;
+  };
+
+  // 剪切：只能剪切顶层对象，删除记录为一次历史；之后第一次粘贴回到原位置
+  const handleCut = () => {
+    const targets = activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id));
+    if (targets.length === 0) return;
+    if (targets.length < activeTab.selectedIds.length) {
+      alert("布尔运算节点或阵列节点中的子对象无法剪切，请使用复制。");
+      return;
+    }
+    const lockedObj = targets.find(o => o.locked);
+    if (lockedObj) {
+      alert(`对象 "${lockedObj.name}" 已锁定，无法剪切。`);
+      return;
+    }
+    setClipboard(targets);
+    pasteCountRef.current = -1;
+    const nextObjects = activeTab.objects.filter(o => !activeTab.selectedIds.includes(o.id));
+    updateActiveTab({
+      objects: nextObjects,
+      selectedIds: [],
+      pendingOp: null,
+      workPlane: targets.some(o => o.id === activeTab.workPlane.sourceObjId)
+        ? { ...activeTab.workPlane, sourceObjId: null }
+        : activeTab.workPlane
+    });
+    pushHistory(nextObjects, []);
+  };
+
+  const handlePaste = () => {
+    if (clipboard.length === 0) return;
+    pasteCountRef.current += 1;
+    insertObjects(cloneWithOffset(clipboard, pasteCountRef.current));
+  };
+
+  // 创建副本：原地复制选中对象并偏移一次，不影响剪贴板
+  const handleDuplicate = () => {
+    const snapshot = getSelectionSnapshot();
+    if (snapshot.length === 0) return;
+    insertObjects(cloneWithOffset(snapshot, 1));
+  };
+
+  // --- Grouping ---
+
+  // 编组：把选中的顶层对象（可以是组）放入一个新的组，组的原点位于成员包围盒的中心，只记录一次历史
+  const handleGroup = () => {
+    const members = activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id));
+    if (members.length < 2) {
+      alert("请至少选择两个顶层对象进行编组");
+      return;
+    }
+    const lockedObj = members.find(o => o.locked);
+    if (lockedObj) {
+      alert(`对象 "${lockedObj.name}" 已锁定，无法修改。`);
+      return;
+    }
+    const bbox = new THREE.Box3();
+    members.forEach(obj => bbox.union(new THREE.Box3().setFromObject(createBrush(obj))));
+    const center = bbox.getCenter(new THREE.Vector3());
+
+    const group: CADObject = {
+      id: uuidv4(),
+      name: `组 ${activeTab.objects.length + 1}`,
+      type: 'group',
+      position: [center.x, center.y, center.z],
+      rotation: [0, 0, 0],
+      scale: [1, 1, 1],
+      color: members[0].color,
+      params: {},
+      // 成员的变换相对于组
+      children: members.map(o => ({
+        ...o,
+        position: [o.position[0] - center.x, o.position[1] - center.y, o.position[2] - center.z] as Point3
+      })),
+      locked: false
+    };
+    // 组放在对象列表中第一个成员原来的位置
+    const memberIds = members.map(o => o.id);
+    const firstIndex = activeTab.objects.findIndex(o => memberIds.includes(o.id));
+    const rest = activeTab.objects.filter(o => !memberIds.includes(o.id));
+    const nextObjects = [...rest.slice(0, firstIndex), group, ...rest.slice(firstIndex)];
+    const nextSelected = [group.id];
+    updateActiveTab({
+      objects: nextObjects,
+      selectedIds: nextSelected,
+      pendingOp: null,
+      workPlane: members.some(o => o.id === activeTab.workPlane.sourceObjId)
+        ? { ...activeTab.workPlane, sourceObjId: null }
+        : activeTab.workPlane
+    });
+    pushHistory(nextObjects, nextSelected);
+  };
+
+  // 取消编组：选中的组被其成员替代（只展开一层），成员的变换换算回组所在的坐标系，只记录一次历史
+  const handleUngroup = () => {
+    const groups = activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id) && o.type === 'group');
+    if (groups.length === 0) {
+      alert("请先选择要取消编组的组");
+      return;
+    }
+    const lockedObj = groups.find(o => o.locked);
+    if (lockedObj) {
+      alert(`对象 "${lockedObj.name}" 已锁定，无法修改。`);
+      return;
+    }
+    const released: CADObject[] = [];
+    const nextObjects = activeTab.objects.flatMap(obj => {
+      if (!groups.includes(obj)) return [obj];
+      const matrix = getObjectMatrix(obj);
+      const members = (obj.children || []).map(child => applyObjectMatrix(child, matrix.clone().multiply(getObjectMatrix(child))));
+      released.push(...members);
+      return members;
+    });
+    const nextSelected = released.map(o => o.id);
+    updateActiveTab({
+      objects: nextObjects,
+      selectedIds: nextSelected,
+      pendingOp: null,
+      workPlane: groups.some(g => g.id === activeTab.workPlane.sourceObjId)
+        ? { ...activeTab.workPlane, sourceObjId: null }
+        : activeTab.workPlane
+    });
+    pushHistory(nextObjects, nextSelected);
+  };
+
+  // --- Align & Distribute ---
+
+  // 按选中对象在世界坐标系中的包围盒沿axis平移它们，只记录一次历史
+  // 选中的子对象（组成员等）的位移换算到父节点坐标系；祖先也被选中的对象随祖先移动，不单独处理
+  const moveSelectionAlongAxis = (axis: AlignAxis, computeOffsets: (boxes: THREE.Box3[]) => number[]) => {
+    const paths = activeTab.selectedIds
+      .map(id => findObjectPath(activeTab.objects, id))
+      .filter(path => path.length > 0 && !path.slice(0, -1).some(o => activeTab.selectedIds.includes(o.id)));
+    if (paths.length < 2) return;
+    const lockedPath = paths.find(path => path.some(o => o.locked));
+    if (lockedPath) {
+      alert(`对象 "${lockedPath[lockedPath.length - 1].name}" 已锁定，无法修改。`);
+      return;
+    }
+    const targets = paths.map(path => path[path.length - 1]);
+    if (!areGeometriesReady(targets)) {
+      prepareGeometries(targets, () => moveSelectionAlongAxis(axis, computeOffsets));
+      return;
+    }
+
+    const getPathMatrix = (path: CADObject[]) => path.reduce((m, o) => m.multiply(getObjectMatrix(o)), new THREE.Matrix4());
+    const offsets = computeOffsets(paths.map(path => getWorldBoundingBox(path[path.length - 1], getPathMatrix(path))));
+
+    let nextObjects = activeTab.objects;
+    paths.forEach((path, i) => {
+      if (Math.abs(offsets[i]) < 1e-9) return;
+      const delta = new THREE.Vector3().setComponent(axis, offsets[i]);
+      const parentMatrix = getPathMatrix(path.slice(0, -1));
+      delta.applyMatrix3(new THREE.Matrix3().setFromMatrix4(parentMatrix).invert());
+      nextObjects = updateObjectInTree(nextObjects, targets[i].id, o => ({
+        ...o,
+        position: [o.position[0] + delta.x, o.position[1] + delta.y, o.position[2] + delta.z]
+      }));
+    });
+    if (nextObjects === activeTab.objects) return;
+    updateActiveTab({ objects: nextObjects });
+    pushHistory(nextObjects, activeTab.selectedIds);
+  };
+
+  const handleAlign = (axis: AlignAxis, mode: AlignMode, reference: AlignReference) => {
+    moveSelectionAlongAxis(axis, boxes => computeAlignOffsets(boxes, axis, mode, reference));
+  };
+
+  const handleDistribute = (axis: AlignAxis, mode: DistributeMode) => {
+    moveSelectionAlongAxis(axis, boxes => computeDistributeOffsets(boxes, axis, mode));
+  };
+
+  // 快捷键：Ctrl/Cmd + C/X/V/D，Ctrl/Cmd + G 编组，Ctrl/Cmd + Shift + G 取消编组；输入框获得焦点时不拦截
+  // 处理函数每次渲染都会更新（需要读取最新的状态），通过ref调用，监听器只注册一次
+  const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleShortcutRef.current = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || isBooleanOperationRunning) return;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+    const actions: Record<string, () => void> = {
+      c: handleCopy,
+      x: handleCut,
+      v: handlePaste,
+      d: handleDuplicate,
+      g: e.shiftKey ? handleUngroup : handleGroup
+    };
+    const action = actions[e.key.toLowerCase()];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleToggleLock = () => {
       if (activeTab.selectedIds.length === 0) return;
       const nextObjects = activeTab.objects.map(obj => {
@@ -913,10 +1722,12 @@ const App: React.FC = () => {
   };
 
   const handleUpdateObject = (id: string, updates: Partial<CADObject>) => {
-    updateActiveTab({
-      objects: activeTab.objects.map((obj) => {
-          if (obj.id !== id) return obj;
+    // 布尔运算节点被锁定时，其子对象同样不可修改
+    const ancestors = findObjectPath(activeTab.objects, id).slice(0, -1);
+    if (ancestors.some(o => o.locked)) return;
 
+    updateActiveTab({
+      objects: updateObjectInTree(activeTab.objects, id, (obj) => {
           // 1. Lock Check
           if (obj.locked && !updates.hasOwnProperty('locked')) {
               // Allow unlocking via updates if passed explicitly, otherwise block
@@ -929,88 +1740,51 @@ const App: React.FC = () => {
     });
   };
 
-  const ensureAttributes = (geometry: THREE.BufferGeometry) => {
-    if (!geometry.attributes.position) return geometry;
-    if (!geometry.attributes.normal) {
-      geometry.computeVertexNormals();
+  // 在实体和孔之间切换，作为一次独立的修改记录历史
+  const handleToggleHole = (id: string) => {
+    const obj = findObjectById(activeTab.objects, id);
+    if (!obj) return;
+    const ancestors = findObjectPath(activeTab.objects, id).slice(0, -1);
+    if (obj.locked || ancestors.some(o => o.locked)) {
+        alert(`对象 "${obj.name}" 已锁定，无法修改。`);
+        return;
     }
-    if (!geometry.attributes.uv) {
-      const count = geometry.attributes.position.count;
-      const uvs = new Float32Array(count * 2);
-      for (let i = 0; i < uvs.length; i++) {
-        uvs[i] = 0;
-      }
-      geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    const nextObjects = updateObjectInTree(activeTab.objects, id, (o) => ({ ...o, isHole: !o.isHole }));
+    updateActiveTab({ objects: nextObjects });
+    pushHistory(nextObjects, activeTab.selectedIds);
+  };
+
+  // 将布尔运算节点烘焙为普通网格：保留当前运算结果，丢弃可编辑的子对象
+  const handleBakeObject = (id: string) => {
+    const obj = findObjectById(activeTab.objects, id);
+    if (!obj || obj.type !== 'boolean') return;
+    if (obj.locked) {
+        alert(`对象 "${obj.name}" 已锁定，无法修改。`);
+        return;
     }
-    geometry.computeBoundingBox();
-    geometry.computeBoundingSphere();
-    return geometry;
-  };
-
-  const createGeometry = (obj: CADObject) => {
-    let geom: THREE.BufferGeometry;
-    const { params } = obj;
-
-    if (obj.type === 'cube') {
-      geom = new THREE.BoxGeometry(params.width, params.height, params.depth);
-    } else if (obj.type === 'sphere') {
-      geom = new THREE.SphereGeometry(params.radius, 32, 32);
-    } else if (obj.type === 'cylinder') {
-      geom = new THREE.CylinderGeometry(params.radius, params.radius, params.height, 32);
-    } else if (obj.type === 'cone') {
-      geom = new THREE.ConeGeometry(params.radius, params.height, 32);
-    } else if (obj.type === 'prism') {
-      geom = new THREE.CylinderGeometry(params.radius, params.radius, params.height, 3);
-    } else if (obj.type === 'hemisphere') {
-      const points = [];
-      points.push(new THREE.Vector2(0, 0));
-      for (let i = 0; i <= 32; i++) {
-        const phi = (i / 32) * (Math.PI / 2); // 0 to 90 degrees
-        points.push(new THREE.Vector2(params.radius * Math.cos(phi), params.radius * Math.sin(phi)));
-      }
-      points.push(new THREE.Vector2(0, params.radius));
-      points.push(new THREE.Vector2(0, 0));
-      geom = new THREE.LatheGeometry(points, 32);
-      geom.center();
-    } else if (obj.type === 'half_cylinder') {
-      const shape = new THREE.Shape();
-      shape.absarc(0, 0, params.radius, 0, Math.PI, false);
-      shape.lineTo(params.radius, 0); 
-      const extrudeSettings = { depth: params.height, bevelEnabled: false, curveSegments: 32 };
-      geom = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-      geom.center(); 
-      geom.rotateX(-Math.PI / 2); 
-    } else if (obj.type === 'torus') {
-      const shape = new THREE.Shape();
-      shape.absarc(0, 0, params.radius, 0, Math.PI * 2, false);
-
-      const holePath = new THREE.Path();
-      holePath.absarc(0, 0, params.tube, 0, Math.PI * 2, true);
-      shape.holes.push(holePath);
-
-      geom = new THREE.ExtrudeGeometry(shape, {
-        depth: params.height,
-        bevelEnabled: false,
-        curveSegments: 32
-      });
-      geom.center();
-      geom.rotateX(-Math.PI / 2);
-    } else if (obj.type === 'custom' && obj.geometryData) {
-      const loader = new THREE.BufferGeometryLoader();
-      geom = loader.parse(obj.geometryData);
-    } else if (obj.type === 'text') {
-        geom = new THREE.BoxGeometry(params.radius || 20, params.radius || 20, params.height || 5);
-    } else {
-      geom = new THREE.BoxGeometry(1, 1, 1);
+    if (!areGeometriesReady([obj])) {
+      prepareGeometries([obj], () => handleBakeObject(id));
+      return;
+    }
+    try {
+      const geom = createGeometry(obj);
+      const { children, booleanOp, ...rest } = obj;
+      const baked: CADObject = { ...rest, type: 'custom', params: {}, geometryData: geom.toJSON() };
+      const nextObjects = updateObjectInTree(activeTab.objects, id, () => baked);
+      updateActiveTab({ objects: nextObjects });
+      pushHistory(nextObjects, activeTab.selectedIds);
+    } catch (e) {
+      console.error("Bake failed", e);
+      alert("烘焙失败，请检查对象形状。");
     }
-    return ensureAttributes(geom);
   };
 
-  const handleBooleanOperation = (op: 'UNION' | 'SUBTRACT') => {
+  const handleBooleanOperation = (op: BooleanOpType) => {
     if (isBooleanOperationRunning) return; // 防止重复点击
     
-    if (activeTab.selectedIds.length === 2) {
-      executeBooleanOp(op, activeTab.selectedIds[0], activeTab.selectedIds[1]);
+    // 选中两个及以上对象时，第一个选中的对象作为主对象，其余对象一次性参与运算
+    if (activeTab.selectedIds.length >= 2) {
+      executeBooleanOp(op, activeTab.selectedIds[0], activeTab.selectedIds.slice(1));
       return;
     }
     if (activeTab.selectedIds.length === 1) {
@@ -1020,6 +1794,14 @@ const App: React.FC = () => {
     }
   };
 
+  // 将选中对象移到选择列表首位，使其成为多对象布尔运算的主对象
+  const handleSetBooleanBase = (id: string) => {
+    if (!activeTab.selectedIds.includes(id)) return;
+    updateActiveTab({
+      selectedIds: [id, ...activeTab.selectedIds.filter(sid => sid !== id)]
+    });
+  };
+
   const triggerImport = () => {
     updateActiveTab({ pendingOp: null });
     fileInputRef.current?.click();
@@ -1110,14 +1892,14 @@ const App: React.FC = () => {
           const text = event.target?.result as string;
           if (!text) return;
           try {
-              const data = JSON.parse(text);
+              const objects = parseProjectData(text);
               
               // 创建新的标签页来加载项目
               const newTabId = uuidv4();
               const newTab: TabState = {
                 id: newTabId,
                 name: file.name.replace('.sl3d', ''),
-                objects: data.objects || [],
+                objects,
                 selectedIds: [],
                 transformMode: 'translate',
                 pendingOp: null,
@@ -1129,7 +1911,7 @@ const App: React.FC = () => {
                 },
                 floorMode: false,
                 hasUnsavedChanges: false,
-                history: [{ objects: data.objects || [], selectedIds: [] }],
+                history: [{ objects, selectedIds: [] }],
                 historyIndex: 0
               };
               
@@ -1147,11 +1929,7 @@ const App: React.FC = () => {
   const handleSaveProject = () => {
       try {
           setIsLoading(true);
-          const projectData = {
-              version: "1.0",
-              timestamp: new Date().toISOString(),
-              objects: activeTab.objects
-          };
+          const projectData = createProjectData(activeTab.objects);
           const json = JSON.stringify(projectData, null, 2);
           
           // 如果在Electron环境中，使用Electron API保存文件
@@ -1216,29 +1994,85 @@ const App: React.FC = () => {
       }
   };
 
-  const handleExportSTL = () => {
-    const targets = activeTab.selectedIds.length > 0 
-      ? activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id))
-      : activeTab.objects;
+  // 导出STL：孔对象本身不导出，而是从与之重叠的实体中减去；减法在Web Worker中逐个实体进行，显示进度并可以取消
+  const handleExportSTL = async () => {
+    if (isBooleanOperationRunning) return;
+    const targets = activeTab.selectedIds.length > 0 ? getSelectionSnapshot() : activeTab.objects;
     if (targets.length === 0) {
       alert("场景为空，无法导出");
       return;
     }
-    const exporter = new STLExporter();
+    // 组展开为各个成员，组内的孔同样参与（因此不需要等待组本身的求值结果）
+    const parts = flattenGroups(targets);
+    if (!areGeometriesReady(parts)) {
+      prepareGeometries(parts, handleExportSTL);
+      return;
+    }
+    const solids = parts.filter(o => !o.isHole);
+    const holes = parts.filter(o => o.isHole);
+    if (solids.length === 0) {
+      alert("导出的对象全部为孔，没有可导出的实体");
+      return;
+    }
+    const holeBoxes = holes.map(hole => new THREE.Box3().setFromObject(createBrush(hole)));
+    const cuttersOf = solids.map(obj => {
+      const solidBox = new THREE.Box3().setFromObject(createBrush(obj));
+      return holes.filter((_, i) => holeBoxes[i].intersectsBox(solidBox));
+    });
+    const cutCount = cuttersOf.filter(cutters => cutters.length > 0).length;
+
+    setIsBooleanOperationRunning(true);
+    setBooleanProgress(0);
+    setBooleanTaskLabel('导出中');
+
+    let job: BooleanJob | null = null;
+    let cancelled = false;
+    const exportJob = {
+      cancel: () => {
+        cancelled = true;
+        job?.cancel();
+      }
+    };
+    booleanJobRef.current = exportJob;
+
     const exportGroup = new THREE.Group();
-    
-    if (targets.some(o => o.type === 'text')) {
-        alert("提示：文本对象可能无法以高精度导出，因为它们是动态生成的。建议先进行其他操作。");
+    let done = 0;
+    try {
+      for (let i = 0; i < solids.length; i++) {
+        const obj = solids[i];
+        const cutters = cuttersOf[i];
+        if (cutters.length === 0) {
+          const mesh = new THREE.Mesh(createGeometry(obj));
+          mesh.position.set(...obj.position);
+          mesh.rotation.set(...obj.rotation);
+          mesh.scale.set(...obj.scale);
+          exportGroup.add(mesh);
+          continue;
+        }
+        // 运算结果已处于世界坐标系，网格不再需要对象的变换；被孔完全挖空的实体不导出
+        try {
+          job = runBooleanInWorker('SUBTRACT', [obj, ...cutters], p => setBooleanProgress((done + p) / cutCount), false);
+          const outcome = await job.promise;
+          if (cancelled || outcome.type === 'cancelled') return;
+          if (outcome.type === 'result') exportGroup.add(new THREE.Mesh(outcome.geometry));
+        } catch (e) {
+          console.error("Hole subtraction failed", e);
+          alert(`对象 "${obj.name}" 减去孔时失败，请检查对象形状。`);
+          return;
+        }
+        done++;
+      }
+    } finally {
+      if (booleanJobRef.current === exportJob) booleanJobRef.current = null;
+      setIsBooleanOperationRunning(false);
+      setBooleanProgress(0);
+    }
+    if (exportGroup.children.length === 0) {
+      alert("导出的实体全部被孔完全挖空，没有可导出的内容");
+      return;
     }
 
-    targets.forEach(obj => {
-      const geom = createGeometry(obj);
-      const mesh = new THREE.Mesh(geom);
-      mesh.position.set(...obj.position);
-      mesh.rotation.set(...obj.rotation);
-      mesh.scale.set(...obj.scale);
-      exportGroup.add(mesh);
-    });
+    const exporter = new STLExporter();
     const result = exporter.parse(exportGroup, { binary: true });
     const blob = new Blob([result], { type: 'application/octet-stream' });
     const link = document.createElement('a');
@@ -1250,6 +2084,10 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isBooleanOperationRunning, setIsBooleanOperationRunning] = useState<boolean>(false);
+  // 后台运算（布尔运算、干涉检查、切片、抽壳、导出时减去孔）的进度（0~1）、名称与当前运算任务（用于取消）
+  const [booleanProgress, setBooleanProgress] = useState<number>(0);
+  const [booleanTaskLabel, setBooleanTaskLabel] = useState<string>('布尔运算中');
+  const booleanJobRef = useRef<{ cancel: () => void } | null>(null);
 
   // 添加未保存更改状态和确认对话框状态
   const [showCloseConfirmDialog, setShowCloseConfirmDialog] = useState(false);
@@ -1293,11 +2131,7 @@ const App: React.FC = () => {
   // 处理保存项目并退出
   const handleSaveProjectForQuit = async () => {
     try {
-      const projectData = {
-        version: "1.0",
-        timestamp: new Date().toISOString(),
-        objects: activeTab.objects
-      };
+      const projectData = createProjectData(activeTab.objects);
       const json = JSON.stringify(projectData, null, 2);
       
       // 如果在Electron环境中，使用Electron API显示保存对话框
@@ -1337,7 +2171,7 @@ const App: React.FC = () => {
 
   
   const selectedObject = activeTab.selectedIds.length === 1 
-    ? activeTab.objects.find((obj) => obj.id === activeTab.selectedIds[0]) || null 
+    ? findObjectById(activeTab.objects, activeTab.selectedIds[0]) || null 
     : null;
 
   // 模拟初始化加载，实际项目中可以移除或替换为真实加载逻辑
@@ -1368,6 +2202,27 @@ const App: React.FC = () => {
         onClose={() => setShowLibrary(false)}
         onSelect={handleLibraryImport}
       />
+
+      <ArrayDialog
+        isOpen={showArrayDialog}
+        selectionCount={activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id)).length}
+        onClose={() => setShowArrayDialog(false)}
+        onConfirm={handleCreateArray}
+      />
+
+      <MirrorDialog
+        isOpen={showMirrorDialog}
+        selectionCount={activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id)).length}
+        workPlaneActive={activeTab.workPlane.step === 'ACTIVE'}
+        onClose={() => setShowMirrorDialog(false)}
+        onConfirm={handleMirror}
+      />
+
+      <ShellDialog
+        isOpen={showShellDialog}
+        onClose={() => setShowShellDialog(false)}
+        onConfirm={handleShell}
+      />
       
       {/* Close Confirmation Dialog */}
       {isSavingBeforeQuit && (
@@ -1508,6 +2363,31 @@ const App: React.FC = () => {
           onToggleFloorMode={() => updateActiveTab({ floorMode: !activeTab.floorMode })}
           onToggleLock={handleToggleLock}
           isBooleanOperationRunning={isBooleanOperationRunning}
+          booleanProgress={booleanProgress}
+          booleanTaskLabel={booleanTaskLabel}
+          onCancelBooleanOp={cancelBooleanOp}
+          onClashCheck={handleClashCheck}
+          canClashCheck={activeTab.objects.length >= 2}
+          onSlice={handleSlice}
+          canSlice={activeTab.workPlane.step === 'ACTIVE' && activeTab.selectedIds.length === 1}
+          onSketch={startSketch}
+          canSketch={activeTab.workPlane.step === 'ACTIVE' && !activeTab.sketch}
+          onArray={() => setShowArrayDialog(true)}
+          canArray={activeTab.objects.some(o => activeTab.selectedIds.includes(o.id))}
+          onMirror={() => setShowMirrorDialog(true)}
+          onShell={() => setShowShellDialog(true)}
+          onCopy={handleCopy}
+          onCut={handleCut}
+          onPaste={handlePaste}
+          onDuplicate={handleDuplicate}
+          canPaste={clipboard.length > 0}
+          pasteOffset={pasteOffset}
+          onPasteOffsetChange={setPasteOffset}
+          onGroup={handleGroup}
+          onUngroup={handleUngroup}
+          canGroup={activeTab.objects.filter(o => activeTab.selectedIds.includes(o.id)).length >= 2}
+          canUngroup={activeTab.objects.some(o => activeTab.selectedIds.includes(o.id) && o.type === 'group')}
+          canShell={activeTab.selectedIds.length === 1 && activeTab.objects.some(o => o.id === activeTab.selectedIds[0])}
         />
       </div>
 
@@ -1616,7 +2496,7 @@ const App: React.FC = () => {
 
           {activeTab.pendingOp && (
             <div className="absolute top-6 left-1/2 transform -translate-x-1/2 bg-blue-600 text-white px-6 py-3 rounded-full shadow-lg z-50 animate-pulse flex items-center gap-4 text-base">
-              <span><i className="fa-solid fa-arrow-pointer"></i> 请选择第二个物体（{activeTab.pendingOp.type === 'UNION' ? '合并' : '切割'}工具）</span>
+              <span><i className="fa-solid fa-arrow-pointer"></i> 请选择第二个物体（{BOOLEAN_OPS[activeTab.pendingOp.type].label}工具）</span>
               <button 
                 onClick={() => updateActiveTab({ pendingOp: null })} 
                 className="hover:text-gray-200 underline text-base ml-4 font-bold"
@@ -1632,7 +2512,7 @@ const App: React.FC = () => {
                  <i className="fa-solid fa-ruler-combined mr-3"></i>
                  {activeTab.workPlane.step === 'PICKING_TARGET' && "步骤1: 点击选择一个平面作为【基准工作平面】"}
                  {activeTab.workPlane.step === 'PICKING_SOURCE' && "步骤2: 点击另一个物体的平面作为【对齐面】"}
-                 {activeTab.workPlane.step === 'ACTIVE' && "工作平面模式: 点击物体对齐，拖拽移动"}
+                 {activeTab.workPlane.step === 'ACTIVE' && (activeTab.sketch ? "草图模式: 在工作平面上点击绘制轮廓" : "工作平面模式: 点击物体对齐，拖拽移动")}
                </div>
                
                {activeTab.workPlane.step === 'ACTIVE' && activeTab.workPlane.sourceObjId && activeTab.selectedIds.includes(activeTab.workPlane.sourceObjId) && (
@@ -1657,6 +2537,150 @@ const App: React.FC = () => {
              </div>
           )}
 
+          {activeTab.sketch && activeTab.workPlane.step === 'ACTIVE' && (
+            <div className="absolute bottom-6 left-6 bg-white border border-gray-200 rounded-xl shadow-lg z-40 w-80 flex flex-col text-base">
+              <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between font-semibold text-gray-700">
+                <span><i className="fa-solid fa-pen-ruler text-blue-500 mr-2"></i>草图</span>
+                <button
+                  onClick={cancelSketch}
+                  className="text-gray-400 hover:text-gray-700"
+                  title="退出草图"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+              <div className="p-4 space-y-3">
+                <div className="grid grid-cols-4 gap-1">
+                  {(Object.keys(SKETCH_TOOLS) as SketchTool[]).map(tool => (
+                    <button
+                      key={tool}
+                      onClick={() => handleSketchTool(tool)}
+                      className={`py-2 rounded border text-sm flex flex-col items-center gap-1 ${activeTab.sketch!.tool === tool ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      <i className={SKETCH_TOOLS[tool].icon}></i>
+                      {SKETCH_TOOLS[tool].label}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-sm text-gray-500">{SKETCH_TOOLS[activeTab.sketch.tool].hint}</div>
+                <div className="text-sm text-gray-600">已闭合轮廓：{activeTab.sketch.profiles.length} 个（位于其他轮廓内部的作为孔）</div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => updateActiveTab({ sketch: undoSketchStep(activeTab.sketch!) })}
+                    className="flex-1 py-1.5 rounded border border-gray-200 text-sm text-gray-600 hover:bg-gray-50"
+                  >
+                    <i className="fa-solid fa-rotate-left mr-1"></i>撤销
+                  </button>
+                  <button
+                    onClick={() => applySketchResult(closeSketchDraft(activeTab.sketch!))}
+                    disabled={activeTab.sketch.draft.length < 3}
+                    className={`flex-1 py-1.5 rounded border border-gray-200 text-sm text-gray-600 hover:bg-gray-50 ${activeTab.sketch.draft.length < 3 ? 'opacity-40 cursor-not-allowed' : ''}`}
+                  >
+                    <i className="fa-solid fa-draw-polygon mr-1"></i>闭合
+                  </button>
+                  <button
+                    onClick={() => updateActiveTab({ sketch: { ...activeTab.sketch!, profiles: [], draft: [], arcMid: null } })}
+                    className="flex-1 py-1.5 rounded border border-gray-200 text-sm text-gray-600 hover:bg-gray-50"
+                  >
+                    <i className="fa-solid fa-eraser mr-1"></i>清空
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 pt-2 border-t border-gray-100">
+                  <label className="text-sm text-gray-600 whitespace-nowrap">拉伸高度</label>
+                  <input
+                    type="number"
+                    value={activeTab.sketch.extrudeHeight}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (e.target.value !== '' && Number.isFinite(value)) {
+                        updateActiveTab({ sketch: { ...activeTab.sketch!, extrudeHeight: value } });
+                      }
+                    }}
+                    className="w-20 text-base p-1 border border-gray-300 rounded bg-gray-50 focus:border-blue-500 focus:outline-none"
+                    title="负值表示沿平面法向的反方向拉伸"
+                  />
+                  <button
+                    onClick={handleExtrudeSketch}
+                    disabled={activeTab.sketch.profiles.length === 0}
+                    className={`flex-1 py-1.5 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 ${activeTab.sketch.profiles.length === 0 ? 'opacity-40 cursor-not-allowed' : ''}`}
+                  >
+                    <i className="fa-solid fa-arrow-up-from-bracket mr-1"></i>拉伸
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={activeTab.sketch.revolveAxis}
+                    onChange={(e) => updateActiveTab({ sketch: { ...activeTab.sketch!, revolveAxis: e.target.value as RevolveAxis } })}
+                    className="text-sm p-1 border border-gray-300 rounded bg-gray-50 focus:border-blue-500 focus:outline-none"
+                    title="旋转轴经过工作平面原点，在草图中以红线显示"
+                  >
+                    <option value="y">绕 Y 轴</option>
+                    <option value="x">绕 X 轴</option>
+                  </select>
+                  <input
+                    type="number"
+                    value={activeTab.sketch.revolveAngle}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (e.target.value !== '' && Number.isFinite(value)) {
+                        updateActiveTab({ sketch: { ...activeTab.sketch!, revolveAngle: value } });
+                      }
+                    }}
+                    className="w-16 text-base p-1 border border-gray-300 rounded bg-gray-50 focus:border-blue-500 focus:outline-none"
+                    title="旋转角度（度）"
+                  />
+                  <span className="text-sm text-gray-500">°</span>
+                  <button
+                    onClick={handleRevolveSketch}
+                    className="flex-1 py-1.5 rounded bg-indigo-600 text-white text-sm hover:bg-indigo-700"
+                    title="旋转唯一的闭合轮廓，或未闭合的半轮廓折线（两端沿旋转轴自动封闭）"
+                  >
+                    <i className="fa-solid fa-rotate mr-1"></i>旋转
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {activeTab.clashReport && (
+            <div className="absolute top-6 left-6 bg-white border border-gray-200 rounded-xl shadow-lg z-40 w-80 max-h-96 flex flex-col text-base">
+              <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between font-semibold text-gray-700">
+                <span><i className="fa-solid fa-triangle-exclamation text-red-500 mr-2"></i>干涉检查</span>
+                <button
+                  onClick={() => updateActiveTab({ clashReport: null })}
+                  className="text-gray-400 hover:text-gray-700"
+                  title="关闭报告"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+              {activeTab.clashReport.length === 0 ? (
+                <div className="px-4 py-6 text-center text-green-600">
+                  <i className="fa-solid fa-circle-check mr-2"></i>未发现相互穿透的对象
+                </div>
+              ) : (
+                <ul className="overflow-y-auto">
+                  {activeTab.clashReport.map(pair => {
+                    const a = findObjectById(activeTab.objects, pair.aId);
+                    const b = findObjectById(activeTab.objects, pair.bId);
+                    if (!a || !b) return null;
+                    return (
+                      <li
+                        key={`${pair.aId}-${pair.bId}`}
+                        className="px-4 py-2 border-b border-gray-100 cursor-pointer hover:bg-red-50"
+                        onClick={() => updateActiveTab({ selectedIds: [a.id, b.id] })}
+                        title="点击选中这两个对象"
+                      >
+                        <div className="truncate text-gray-700">{a.name} ↔ {b.name}</div>
+                        <div className="text-sm text-red-500">重叠体积 {pair.volume.toFixed(2)} mm³</div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="absolute top-6 left-1/2 transform -translate-x-1/2 bg-red-600 text-white px-6 py-3 rounded-full shadow-lg z-50 flex items-center gap-4 text-base max-w-md w-full mx-4">
               <i className="fa-solid fa-triangle-exclamation mr-3"></i>
@@ -1679,6 +2703,9 @@ const App: React.FC = () => {
             transformMode={activeTab.transformMode}
             workPlane={activeTab.workPlane}
             floorMode={activeTab.floorMode}
+            clashIds={(activeTab.clashReport || []).flatMap(p => [p.aId, p.bId])}
+            sketch={activeTab.sketch}
+            onSketchClick={handleSketchClick}
           />
 
           {isLoading ? (
@@ -1707,6 +2734,16 @@ const App: React.FC = () => {
             <PropertiesPanel 
               object={selectedObject} 
               selectionCount={activeTab.selectedIds.length}
+              selectedObjects={activeTab.selectedIds
+                .map(id => findObjectById(activeTab.objects, id))
+                .filter((o): o is CADObject => !!o)}
+              onSetBase={handleSetBooleanBase}
+              isChildObject={!!selectedObject && !activeTab.objects.some(o => o.id === selectedObject.id)}
+              onBake={() => selectedObject && handleBakeObject(selectedObject.id)}
+              onUngroup={handleUngroup}
+              onAlign={handleAlign}
+              onDistribute={handleDistribute}
+              onToggleHole={() => selectedObject && handleToggleHole(selectedObject.id)}
               onUpdate={(updates) => selectedObject && handleUpdateObject(selectedObject.id, updates)}
               onCommit={handleCommit}
             />
@@ -0,0 +1,76 @@
+// 对齐与分布：根据对象在世界坐标系中的精确包围盒，计算每个对象沿某一坐标轴需要平移的距离
+import * as THREE from 'three';
+import { CADObject } from './types';
+import { createGeometry } from './geometry';
+
+// 坐标轴：0/1/2分别为X/Y/Z
+export type AlignAxis = 0 | 1 | 2;
+
+// 对齐方式：包围盒的最小边、中心或最大边
+export type AlignMode = 'min' | 'center' | 'max';
+
+// 对齐基准：first为第一个选中的对象（布尔运算主对象），selection为所有选中对象的总包围盒
+export type AlignReference = 'first' | 'selection';
+
+// 分布方式：spacing为中心点等间距，gaps为相邻包围盒之间的间隙相等
+export type DistributeMode = 'spacing' | 'gaps';
+
+// 对象在世界坐标系中的精确包围盒：逐顶点变换，旋转后的对象和导入网格同样准确
+// matrix为对象的世界矩阵（子对象需叠加各级父节点的变换）
+export const getWorldBoundingBox = (obj: CADObject, matrix: THREE.Matrix4): THREE.Box3 => {
+  const position = createGeometry(obj).attributes.position;
+  const box = new THREE.Box3();
+  const v = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    box.expandByPoint(v.fromBufferAttribute(position, i).applyMatrix4(matrix));
+  }
+  return box;
+};
+
+const getAnchor = (box: THREE.Box3, axis: AlignAxis, mode: AlignMode): number => {
+  const min = box.min.getComponent(axis);
+  const max = box.max.getComponent(axis);
+  return mode === 'min' ? min : mode === 'max' ? max : (min + max) / 2;
+};
+
+// 对齐：返回各对象沿axis的平移量，使它们的min/center/max与基准一致
+export const computeAlignOffsets = (boxes: THREE.Box3[], axis: AlignAxis, mode: AlignMode, reference: AlignReference): number[] => {
+  if (boxes.length === 0) return [];
+  const referenceBox = reference === 'first'
+    ? boxes[0]
+    : boxes.reduce((union, box) => union.union(box), new THREE.Box3());
+  const target = getAnchor(referenceBox, axis, mode);
+  return boxes.map(box => target - getAnchor(box, axis, mode));
+};
+
+// 分布：按中心位置排序，首尾两个对象不动，中间的对象按中心等间距或间隙相等排列；少于三个对象时不移动
+export const computeDistributeOffsets = (boxes: THREE.Box3[], axis: AlignAxis, mode: DistributeMode): number[] => {
+  const offsets = boxes.map(() => 0);
+  const n = boxes.length;
+  if (n < 3) return offsets;
+
+  const center = (i: number) => getAnchor(boxes[i], axis, 'center');
+  const order = boxes.map((_, i) => i).sort((a, b) => center(a) - center(b));
+  const first = order[0];
+  const last = order[n - 1];
+
+  if (mode === 'spacing') {
+    const start = center(first);
+    const step = (center(last) - start) / (n - 1);
+    order.forEach((index, k) => {
+      offsets[index] = start + step * k - center(index);
+    });
+    return offsets;
+  }
+
+  // 间隙相等：首尾对象之间的总长度减去所有对象的尺寸后平均分配；对象总尺寸超过总长度时间隙为负（均匀重叠）
+  const size = (i: number) => boxes[i].max.getComponent(axis) - boxes[i].min.getComponent(axis);
+  const span = boxes[last].max.getComponent(axis) - boxes[first].min.getComponent(axis);
+  const gap = (span - order.reduce((sum, i) => sum + size(i), 0)) / (n - 1);
+  let cursor = boxes[first].min.getComponent(axis);
+  order.forEach(index => {
+    offsets[index] = cursor - boxes[index].min.getComponent(axis);
+    cursor += size(index) + gap;
+  });
+  return offsets;
+};
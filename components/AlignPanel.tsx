@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { AlignAxis, AlignMode, AlignReference, DistributeMode } from '../align';
+
+// 定义对齐面板的属性接口
+interface AlignPanelProps {
+  selectionCount: number; // 选中的对象数量（分布至少需要三个）
+  onAlign: (axis: AlignAxis, mode: AlignMode, reference: AlignReference) => void; // 对齐回调
+  onDistribute: (axis: AlignAxis, mode: DistributeMode) => void; // 分布回调
+}
+
+const AXES: { axis: AlignAxis; label: string }[] = [
+  { axis: 0, label: 'X' },
+  { axis: 1, label: 'Y' },
+  { axis: 2, label: 'Z' }
+];
+
+const ALIGN_MODES: { mode: AlignMode; label: string; icon: string }[] = [
+  { mode: 'min', label: '最小', icon: 'fa-align-left' },
+  { mode: 'center', label: '居中', icon: 'fa-align-center' },
+  { mode: 'max', label: '最大', icon: 'fa-align-right' }
+];
+
+// AlignPanel组件：多选时沿某一坐标轴对齐或分布选中对象（按世界坐标系中的包围盒计算）
+export const AlignPanel: React.FC<AlignPanelProps> = ({ selectionCount, onAlign, onDistribute }) => {
+  const [axis, setAxis] = useState<AlignAxis>(0);
+  const [reference, setReference] = useState<AlignReference>('selection');
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-2 rounded border text-sm transition-colors ${active ? 'bg-blue-50 border-blue-300 text-blue-800 font-medium' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`;
+  const actionClass = "px-2 py-2 rounded border border-gray-200 bg-white text-sm text-gray-700 hover:bg-gray-50 transition-colors";
+  const canDistribute = selectionCount >= 3;
+
+  return (
+    <div className="mt-6 text-left">
+      <label className="block text-sm font-bold text-gray-500 uppercase mb-2 border-b border-gray-200 pb-1">对齐与分布</label>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {AXES.map(option => (
+          <button key={option.axis} onClick={() => setAxis(option.axis)} className={toggleClass(axis === option.axis)}>
+            {option.label} 轴
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <button onClick={() => setReference('selection')} className={toggleClass(reference === 'selection')} title="对齐到所有选中对象的总包围盒">
+          选择范围
+        </button>
+        <button onClick={() => setReference('first')} className={toggleClass(reference === 'first')} title="对齐到主对象（带星号的对象），主对象不动">
+          主对象
+        </button>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {ALIGN_MODES.map(option => (
+          <button key={option.mode} onClick={() => onAlign(axis, option.mode, reference)} className={actionClass}>
+            <i className={`fa-solid ${option.icon} mr-1 text-gray-500`}></i>{option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => onDistribute(axis, 'spacing')}
+          disabled={!canDistribute}
+          className={`${actionClass} ${!canDistribute ? 'opacity-40 cursor-not-allowed' : ''}`}
+          title="中心点等间距分布（首尾对象不动）"
+        >
+          <i className="fa-solid fa-arrows-left-right mr-1 text-gray-500"></i>等间距
+        </button>
+        <button
+          onClick={() => onDistribute(axis, 'gaps')}
+          disabled={!canDistribute}
+          className={`${actionClass} ${!canDistribute ? 'opacity-40 cursor-not-allowed' : ''}`}
+          title="相邻对象之间的间隙相等（首尾对象不动）"
+        >
+          <i className="fa-solid fa-grip-lines-vertical mr-1 text-gray-500"></i>等间隙
+        </button>
+      </div>
+      {!canDistribute && <p className="text-xs text-gray-400 mt-1">分布至少需要选中三个对象。</p>}
+    </div>
+  );
+};
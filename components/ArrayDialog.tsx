@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { PatternType, Point3 } from '../types';
+import {
+  PatternSettings,
+  DEFAULT_PATTERN_SPACING,
+  DEFAULT_PATTERN_AXIS,
+  MIN_PATTERN_COUNT,
+  MAX_PATTERN_COUNT
+} from '../pattern';
+
+// 定义阵列对话框的属性接口
+interface ArrayDialogProps {
+  isOpen: boolean; // 对话框是否打开
+  selectionCount: number; // 参与阵列的对象数量
+  onClose: () => void; // 关闭对话框的回调函数
+  onConfirm: (settings: PatternSettings) => void; // 确认生成阵列的回调函数
+}
+
+// 三个坐标分量的输入行
+const VectorInput: React.FC<{ value: Point3; onChange: (value: Point3) => void }> = ({ value, onChange }) => (
+  <div className="grid grid-cols-3 gap-2">
+    {['X', 'Y', 'Z'].map((axis, i) => (
+      <input
+        key={axis}
+        type="number"
+        value={value[i]}
+        title={axis}
+        onChange={(e) => {
+          if (e.target.value === '' || e.target.value === '-') return;
+          const next = [...value] as Point3;
+          next[i] = Number(e.target.value);
+          onChange(next);
+        }}
+        className="w-full text-base p-2 border border-gray-300 rounded bg-gray-50 text-gray-800 focus:border-blue-500 focus:outline-none focus:bg-white"
+      />
+    ))}
+  </div>
+);
+
+// ArrayDialog组件：设置线性/环形阵列的参数，生成独立副本或随源对象更新的阵列节点
+export const ArrayDialog: React.FC<ArrayDialogProps> = ({ isOpen, selectionCount, onClose, onConfirm }) => {
+  const [settings, setSettings] = useState<PatternSettings>({
+    patternType: 'linear',
+    count: 3,
+    spacing: DEFAULT_PATTERN_SPACING,
+    axis: DEFAULT_PATTERN_AXIS,
+    center: [0, 0, 0],
+    angle: 360,
+    linked: true
+  });
+
+  if (!isOpen) return null;
+
+  const update = (updates: Partial<PatternSettings>) => setSettings(prev => ({ ...prev, ...updates }));
+  const inputClass = "w-full text-base p-2 border border-gray-300 rounded bg-gray-50 text-gray-800 focus:border-blue-500 focus:outline-none focus:bg-white";
+  const labelClass = "text-base text-gray-600 block mb-1";
+  const isCircular = settings.patternType === 'circular';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 backdrop-blur-sm flex items-center justify-center z-[9999] p-4">
+      <div className="bg-white border border-gray-300 rounded-2xl shadow-2xl w-full max-w-md p-6">
+        <h2 className="text-xl font-bold text-gray-800 mb-1">
+          <i className="fa-solid fa-grip mr-2 text-blue-500"></i>阵列
+        </h2>
+        <p className="text-sm text-gray-500 mb-5">为选中的 {selectionCount} 个对象分别生成阵列。</p>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>类型</label>
+              <select
+                value={settings.patternType}
+                onChange={(e) => update({ patternType: e.target.value as PatternType })}
+                className={inputClass}
+              >
+                <option value="linear">线性阵列</option>
+                <option value="circular">环形阵列</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>数量 (含源对象)</label>
+              <input
+                type="number"
+                value={settings.count}
+                min={MIN_PATTERN_COUNT}
+                max={MAX_PATTERN_COUNT}
+                step={1}
+                onChange={(e) => update({ count: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {!isCircular && (
+            <div>
+              <label className={labelClass}>间距 (X, Y, Z)</label>
+              <VectorInput value={settings.spacing} onChange={(spacing) => update({ spacing })} />
+            </div>
+          )}
+
+          {isCircular && (
+            <>
+              <div>
+                <label className={labelClass}>旋转中心 (X, Y, Z)</label>
+                <VectorInput value={settings.center} onChange={(center) => update({ center })} />
+              </div>
+              <div>
+                <label className={labelClass}>旋转轴方向 (X, Y, Z)</label>
+                <VectorInput value={settings.axis} onChange={(axis) => update({ axis })} />
+              </div>
+              <div>
+                <label className={labelClass}>总角度 (°)</label>
+                <input
+                  type="number"
+                  value={settings.angle}
+                  min={1}
+                  max={360}
+                  onChange={(e) => update({ angle: Number(e.target.value) })}
+                  className={inputClass}
+                />
+                <p className="text-sm text-gray-400 mt-1">360° 时实例均匀分布一周，否则首尾实例分别位于 0° 和总角度处。</p>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className={labelClass}>生成方式</label>
+            <div className="grid grid-cols-2 gap-2">
+              {[true, false].map(linked => (
+                <button
+                  key={String(linked)}
+                  onClick={() => update({ linked })}
+                  className={`px-3 py-2 rounded border text-base transition-colors ${settings.linked === linked ? 'bg-blue-50 border-blue-300 text-blue-800 font-medium' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {linked ? '关联阵列' : '独立副本'}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-gray-400 mt-1">
+              {settings.linked
+                ? '生成一个阵列节点：修改源对象的参数后所有实例同步更新，也可随时修改数量和间距。'
+                : '生成互不关联的普通副本，可以分别编辑。'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(settings)}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
+          >
+            <i className="fa-solid fa-check mr-2"></i>生成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
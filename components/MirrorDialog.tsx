@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { MirrorPlane, MirrorSettings } from '../mirror';
+
+// 定义镜像对话框的属性接口
+interface MirrorDialogProps {
+  isOpen: boolean; // 对话框是否打开
+  selectionCount: number; // 参与镜像的对象数量
+  workPlaneActive: boolean; // 工作平面是否已设定（可作为镜像平面）
+  onClose: () => void; // 关闭对话框的回调函数
+  onConfirm: (settings: MirrorSettings) => void; // 确认镜像的回调函数
+}
+
+const PLANE_OPTIONS: { plane: MirrorPlane; label: string }[] = [
+  { plane: 'YZ', label: 'YZ 平面 (沿 X 翻转)' },
+  { plane: 'XZ', label: 'XZ 平面 (沿 Y 翻转)' },
+  { plane: 'XY', label: 'XY 平面 (沿 Z 翻转)' },
+  { plane: 'workplane', label: '工作平面' }
+];
+
+// MirrorDialog组件：选择镜像平面，以及是否保留原对象
+export const MirrorDialog: React.FC<MirrorDialogProps> = ({ isOpen, selectionCount, workPlaneActive, onClose, onConfirm }) => {
+  const [settings, setSettings] = useState<MirrorSettings>({ plane: 'YZ', throughSelection: true, copy: false });
+
+  if (!isOpen) return null;
+
+  const update = (updates: Partial<MirrorSettings>) => setSettings(prev => ({ ...prev, ...updates }));
+  // 工作平面未激活时不能选择它
+  const plane = settings.plane === 'workplane' && !workPlaneActive ? 'YZ' : settings.plane;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 backdrop-blur-sm flex items-center justify-center z-[9999] p-4">
+      <div className="bg-white border border-gray-300 rounded-2xl shadow-2xl w-full max-w-md p-6">
+        <h2 className="text-xl font-bold text-gray-800 mb-1">
+          <i className="fa-solid fa-arrows-left-right mr-2 text-blue-500"></i>镜像
+        </h2>
+        <p className="text-sm text-gray-500 mb-5">镜像选中的 {selectionCount} 个对象。</p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-base text-gray-600 block mb-1">镜像平面</label>
+            <div className="grid grid-cols-2 gap-2">
+              {PLANE_OPTIONS.map(option => {
+                const disabled = option.plane === 'workplane' && !workPlaneActive;
+                return (
+                  <button
+                    key={option.plane}
+                    onClick={() => update({ plane: option.plane })}
+                    disabled={disabled}
+                    title={disabled ? '请先设定工作平面' : undefined}
+                    className={`px-3 py-2 rounded border text-sm transition-colors ${plane === option.plane ? 'bg-blue-50 border-blue-300 text-blue-800 font-medium' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'} ${disabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {plane !== 'workplane' && (
+            <label className="flex items-center gap-2 text-base text-gray-600">
+              <input
+                type="checkbox"
+                checked={settings.throughSelection}
+                onChange={(e) => update({ throughSelection: e.target.checked })}
+              />
+              平面经过选中对象的中心（否则经过原点）
+            </label>
+          )}
+
+          <label className="flex items-center gap-2 text-base text-gray-600">
+            <input
+              type="checkbox"
+              checked={settings.copy}
+              onChange={(e) => update({ copy: e.target.checked })}
+            />
+            保留原对象（生成镜像副本）
+          </label>
+
+          <p className="text-sm text-gray-400">
+            对称的基本体镜像后仍可编辑参数；螺纹、文字、扫掠体、布尔运算结果等会转换为网格（螺纹变为左旋）。
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm({ ...settings, plane })}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
+          >
+            <i className="fa-solid fa-check mr-2"></i>镜像
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
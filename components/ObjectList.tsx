@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 // 导入CAD对象类型定义
 import { CADObject } from '../types';
 
@@ -21,8 +21,30 @@ export const ObjectList: React.FC<ObjectListProps> = ({ objects, selectedIds, on
     prism: '三棱柱',
     hemisphere: '半球体',
     half_cylinder: '半圆柱',
-    torus: '空心圆柱',
-    custom: '复合/导入'
+    ring: '空心圆柱',
+    torus: '圆环',
+    custom: '复合/导入',
+    boolean: '布尔运算',
+    revolve: '旋转体',
+    sweep: '扫掠体',
+    pyramid: '四棱锥',
+    wedge: '楔形',
+    capsule: '胶囊',
+    ellipsoid: '椭球',
+    polygon_prism: '多棱柱',
+    star: '星形',
+    tube: '圆管',
+    gear: '齿轮',
+    thread: '螺纹',
+    pattern: '阵列',
+    group: '组'
+  };
+
+  // 展开的节点ID集合（布尔运算节点、阵列节点和组可展开以编辑子对象）
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => prev.includes(id) ? prev.filter(eid => eid !== id) : [...prev, id]);
   };
 
   // 如果场景中没有对象，显示提示信息
@@ -36,29 +58,54 @@ export const ObjectList: React.FC<ObjectListProps> = ({ objects, selectedIds, on
     );
   }
 
-  // 渲染对象列表
-  return (
-    <ul className="flex-1 overflow-y-auto">
-      {objects.map((obj) => (
+  // 递归渲染对象及其子对象
+  const renderItem = (obj: CADObject, depth: number): React.ReactNode => {
+    const hasChildren = !!obj.children && obj.children.length > 0;
+    const isExpanded = expandedIds.includes(obj.id);
+    return (
+      <React.Fragment key={obj.id}>
         <li
-          key={obj.id}
-          className={`px-4 py-3 text-base cursor-pointer border-l-4 transition-colors flex items-center justify-between ${
+          className={`pr-4 py-3 text-base cursor-pointer border-l-4 transition-colors flex items-center justify-between ${
             selectedIds.includes(obj.id)
               ? 'bg-blue-50 border-blue-500 text-blue-900 font-medium'
               : 'border-transparent hover:bg-gray-50 text-gray-700'
           }`}
+          style={{ paddingLeft: `${16 + depth * 20}px` }}
           onClick={(e) => onSelect(obj.id, e.ctrlKey || e.metaKey)}
         >
           <span className="flex items-center gap-3">
-             <span 
-               className="w-4 h-4 rounded-full border border-gray-300 shadow-sm"
-               style={{ backgroundColor: obj.color }}
-             ></span>
+             {hasChildren ? (
+               <button
+                 className="w-4 text-gray-400 hover:text-gray-700"
+                 onClick={(e) => { e.stopPropagation(); toggleExpanded(obj.id); }}
+                 title={isExpanded ? "收起" : "展开"}
+               >
+                 <i className={`fa-solid ${isExpanded ? 'fa-chevron-down' : 'fa-chevron-right'} text-xs`}></i>
+               </button>
+             ) : depth > 0 && <span className="w-4"></span>}
+             {/* 组显示为文件夹图标，孔对象显示为虚线边框的空心圆点 */}
+             {obj.type === 'group' ? (
+               <i className={`fa-regular ${isExpanded ? 'fa-folder-open' : 'fa-folder'} w-4 text-gray-500`}></i>
+             ) : (
+               <span 
+                 className={`w-4 h-4 rounded-full border shadow-sm ${obj.isHole ? 'border-dashed border-gray-500' : 'border-gray-300'}`}
+                 style={{ backgroundColor: obj.isHole ? 'transparent' : obj.color }}
+                 title={obj.isHole ? '孔' : undefined}
+               ></span>
+             )}
              <span className="truncate max-w-[140px]" title={obj.name}>{obj.name}</span>
           </span>
           <span className="text-xs text-gray-400 uppercase">{typeMap[obj.type] || '未知'}</span>
         </li>
-      ))}
+        {hasChildren && isExpanded && obj.children!.map(child => renderItem(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  // 渲染对象列表
+  return (
+    <ul className="flex-1 overflow-y-auto">
+      {objects.map((obj) => renderItem(obj, 0))}
     </ul>
   );
-};
\ No newline at end of file
+};
@@ -2,12 +2,27 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 // 导入CAD对象类型定义
-import { CADObject } from '../types';
+import { CADObject, Point2, Point3 } from '../types';
+import { METRIC_THREADS } from '../thread';
+import { getPatternCount, DEFAULT_PATTERN_AXIS, DEFAULT_PATTERN_SPACING, MIN_PATTERN_COUNT, MAX_PATTERN_COUNT } from '../pattern';
+import { getGearDimensions, MIN_GEAR_TEETH, MAX_GEAR_TEETH, MIN_PRESSURE_ANGLE, MAX_PRESSURE_ANGLE } from '../gear';
+import { BOOLEAN_OPS, getSegments, MIN_SEGMENTS, MAX_SEGMENTS, EDGE_TREATMENT_TYPES, getMaxEdgeSize } from '../geometry';
+import { TEXT_FONTS, getFontId, getMissingGlyphs, loadFont } from '../fonts';
+import { AlignAxis, AlignMode, AlignReference, DistributeMode } from '../align';
+import { AlignPanel } from './AlignPanel';
 
 // 定义属性面板组件的属性接口
 interface PropertiesPanelProps {
   object: CADObject | null; // 当前选中的对象，如果没有选中则为null
   selectionCount: number; // 当前选中的对象数量
+  selectedObjects?: CADObject[]; // 当前选中的所有对象（按选择顺序，第一个为布尔运算主对象）
+  onSetBase?: (id: string) => void; // 将某个选中对象设为布尔运算主对象的回调函数
+  isChildObject?: boolean; // 当前对象是否为布尔运算节点、阵列节点或组的子对象
+  onBake?: () => void; // 将布尔运算节点烘焙为普通网格的回调函数
+  onToggleHole?: () => void; // 在实体和孔之间切换的回调函数（记录一次历史）
+  onUngroup?: () => void; // 取消编组的回调函数
+  onAlign?: (axis: AlignAxis, mode: AlignMode, reference: AlignReference) => void; // 对齐选中对象的回调函数
+  onDistribute?: (axis: AlignAxis, mode: DistributeMode) => void; // 分布选中对象的回调函数
   onUpdate: (updates: Partial<CADObject>) => void; // 更新对象属性的回调函数
   onCommit: () => void; // 提交更改的回调函数
 }
@@ -84,12 +99,26 @@ const NumericInput = ({
   )
 }
 
+// 支持调整曲面细分段数的对象类型
+const SEGMENTED_TYPES = ['sphere', 'cylinder', 'cone', 'hemisphere', 'half_cylinder', 'ring', 'torus', 'revolve', 'sweep', 'capsule', 'ellipsoid', 'tube', 'gear', 'thread'];
+
 // PropertiesPanel组件：显示和编辑选中对象的属性
-export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, selectionCount, onUpdate, onCommit }) => {
+export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, selectionCount, selectedObjects = [], onSetBase, isChildObject = false, onBake, onToggleHole, onUngroup, onAlign, onDistribute, onUpdate, onCommit }) => {
   // 状态：是否锁定等比例缩放，默认为true（锁定）
   const [lockScale, setLockScale] = useState(true);
   // 缩放快照引用，用于等比例缩放计算
   const scaleSnapshot = useRef<[number, number, number] | null>(null);
+  // 字体加载完成后刷新面板，以便显示缺失字符提示
+  const [, setFontVersion] = useState(0);
+  const fontId = object?.type === 'text' ? getFontId(object.params) : null;
+  useEffect(() => {
+    if (!fontId) return;
+    let cancelled = false;
+    loadFont(fontId)
+      .then(() => { if (!cancelled) setFontVersion(v => v + 1); })
+      .catch(e => console.warn("Font loading failed", e));
+    return () => { cancelled = true; };
+  }, [fontId]);
 
   // 如果选中多个对象，显示多选提示
   if (selectionCount > 1) {
@@ -98,6 +127,29 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
         <i className="fa-solid fa-layer-group text-4xl mb-4"></i>
         <p>已选择 {selectionCount} 个对象</p>
         <p className="text-sm mt-4 text-gray-400">使用工具栏进行布尔运算、删除或导出。</p>
+        {onAlign && onDistribute && (
+          <AlignPanel selectionCount={selectionCount} onAlign={onAlign} onDistribute={onDistribute} />
+        )}
+        {/* 布尔运算主对象选择：其余对象将一次性合并到主对象或从主对象中切除 */}
+        {selectedObjects.length > 1 && (
+          <div className="mt-6 text-left">
+            <label className="block text-sm font-bold text-gray-500 uppercase mb-2 border-b border-gray-200 pb-1">布尔运算主对象</label>
+            <ul className="space-y-1">
+              {selectedObjects.map((obj, idx) => (
+                <li key={obj.id}>
+                  <button
+                    onClick={() => onSetBase?.(obj.id)}
+                    className={`w-full flex items-center justify-between px-3 py-2 rounded border text-sm transition-colors ${idx === 0 ? 'bg-blue-50 border-blue-300 text-blue-800 font-medium' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    title="设为主对象"
+                  >
+                    <span className="truncate max-w-[160px]">{obj.name}</span>
+                    {idx === 0 ? <i className="fa-solid fa-star text-blue-500"></i> : <i className="fa-regular fa-star text-gray-300"></i>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     );
   }
@@ -113,6 +165,11 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
 
   // 检查对象是否被锁定
   const isLocked = object.locked || false;
+  // 文字中当前字体无法显示的字符
+  const missingGlyphs = object.type === 'text' ? getMissingGlyphs(object.params) : [];
+  // 扫掠体只显示当前截面形状用到的尺寸
+  const isCircleSweep = object.type === 'sweep' && object.params.section !== 'rectangle';
+  const isRectangleSweep = object.type === 'sweep' && object.params.section === 'rectangle';
 
   // 处理通用属性变化
   const handleChange = (key: string, value: any) => {
@@ -121,8 +178,8 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
 
   // 处理参数属性变化
   const handleParamChange = (paramKey: string, val: string) => {
-    // 文本的特殊处理：允许空字符串
-    if (paramKey === 'text') {
+    // 文本、字体和扫掠选项的特殊处理：保存为字符串，允许空字符串
+    if (paramKey === 'text' || paramKey === 'font' || paramKey === 'section' || paramKey === 'pathType' || paramKey === 'threadType' || paramKey === 'patternType') {
         onUpdate({
             params: {
                 ...object.params,
@@ -143,6 +200,79 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
     });
   };
 
+  // 圆角和倒角互斥：设置其中一个时另一个归零，数值限制在0到最小尺寸的一半之间
+  const handleEdgeChange = (paramKey: 'filletRadius' | 'chamfer', val: string) => {
+    if (val === '' || val === '-') return;
+    const value = Math.min(Math.max(0, Number(val)), getMaxEdgeSize(object.type, object.params));
+    const other = paramKey === 'filletRadius' ? 'chamfer' : 'filletRadius';
+    onUpdate({
+      params: {
+        ...object.params,
+        [paramKey]: value,
+        ...(value > 0 && object.params[other] ? { [other]: 0 } : {})
+      }
+    });
+  };
+
+  // 修改旋转体轮廓中某个点的半径或高度（半径不能为负）
+  const handleProfileChange = (index: number, axis: 0 | 1, val: string) => {
+    if (val === '' || val === '-' || !object.params.profile) return;
+    const profile = object.params.profile.map(p => [...p] as Point2);
+    profile[index][axis] = axis === 0 ? Math.max(0, Number(val)) : Number(val);
+    onUpdate({ params: { ...object.params, profile } });
+  };
+
+  // 在轮廓第index个点之后插入一个点（位于与下一个点连线的中点）
+  const handleInsertProfilePoint = (index: number) => {
+    const profile = object.params.profile;
+    if (!profile) return;
+    const [a, b] = [profile[index], profile[(index + 1) % profile.length]];
+    const next = [...profile];
+    next.splice(index + 1, 0, [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2]);
+    onUpdate({ params: { ...object.params, profile: next } });
+  };
+
+  const handleRemoveProfilePoint = (index: number) => {
+    const profile = object.params.profile;
+    if (!profile || profile.length <= 3) return;
+    onUpdate({ params: { ...object.params, profile: profile.filter((_, i) => i !== index) } });
+  };
+
+  // 修改扫掠路径中某个控制点的坐标
+  const handlePathChange = (index: number, axis: number, val: string) => {
+    if (val === '' || val === '-' || !object.params.path) return;
+    const path = object.params.path.map(p => [...p] as Point3);
+    path[index][axis] = Number(val);
+    onUpdate({ params: { ...object.params, path } });
+  };
+
+  // 修改阵列间距或旋转轴的某个分量
+  const handleVectorParamChange = (paramKey: 'spacing' | 'axis', axis: number, val: string) => {
+    if (val === '' || val === '-') return;
+    const vector = [...(object.params[paramKey] || (paramKey === 'axis' ? DEFAULT_PATTERN_AXIS : DEFAULT_PATTERN_SPACING))] as Point3;
+    vector[axis] = Number(val);
+    onUpdate({ params: { ...object.params, [paramKey]: vector } });
+  };
+
+  // 在第index个控制点之后插入一个点：位于与下一个点的中点，末尾则沿最后一段方向延长
+  const handleInsertPathPoint = (index: number) => {
+    const path = object.params.path;
+    if (!path || path.length < 2) return;
+    const a = path[index];
+    const point = (index < path.length - 1
+      ? a.map((v, i) => (v + path[index + 1][i]) / 2)
+      : a.map((v, i) => 2 * v - path[index - 1][i])) as Point3;
+    const next = [...path];
+    next.splice(index + 1, 0, point);
+    onUpdate({ params: { ...object.params, path: next } });
+  };
+
+  const handleRemovePathPoint = (index: number) => {
+    const path = object.params.path;
+    if (!path || path.length <= 2) return;
+    onUpdate({ params: { ...object.params, path: path.filter((_, i) => i !== index) } });
+  };
+
   // 处理位置变化
   const handlePosChange = (idx: number, val: string) => {
     if (val === '' || val === '-') return;
@@ -160,6 +290,9 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
     onUpdate({ rotation: newRot });
   };
 
+  // 组只能等比例缩放：成员带有旋转时，不均匀的缩放会产生剪切变形，无法换算为成员自身的位置、旋转和缩放
+  const uniformScale = lockScale || object.type === 'group';
+
   // 处理缩放获取焦点事件
   const handleScaleFocus = () => {
       if (object) {
@@ -171,9 +304,10 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
   const handleScaleChange = (idx: number, val: string) => {
     if (val === '' || val === '-') return;
     const newVal = parseFloat(val);
-    if (isNaN(newVal)) return;
+    // 负缩放会翻转法线，导出的STL无效；需要翻转时请使用工具栏的镜像命令
+    if (isNaN(newVal) || newVal <= 0) return;
 
-    if (lockScale) {
+    if (uniformScale) {
         // 如果有快照则使用，否则回退
         const baseScale = scaleSnapshot.current || object.scale;
         const currentVal = baseScale[idx];
@@ -235,26 +369,52 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
         {isLocked && <div className="text-xs text-red-400 mt-1">此对象已锁定</div>}
       </div>
 
-      {/* 对象颜色编辑 */}
-      <div className="mb-6">
-        <label className="block text-sm font-bold text-gray-500 uppercase mb-2">颜色</label>
-        <div className="flex gap-3 items-center">
-           <input
-            type="color"
-            value={object.color}
-            onChange={(e) => { handleChange('color', e.target.value); onCommit(); }} 
-            className="h-10 w-16 p-0 border border-gray-300 rounded cursor-pointer bg-gray-50"
-          />
-          <input 
-             type="text"
-             value={object.color}
-             onChange={(e) => handleChange('color', e.target.value)}
-             onBlur={onCommit}
-             onKeyDown={handleKeyDown}
-             className={inputClass}
-          />
-        </div>
-      </div>
+      {/* 组没有自己的颜色和实体/孔类型，由各成员决定 */}
+      {object.type !== 'group' && (
+        <>
+          {/* 对象颜色编辑 */}
+          <div className="mb-6">
+            <label className="block text-sm font-bold text-gray-500 uppercase mb-2">颜色</label>
+            <div className="flex gap-3 items-center">
+               <input
+                type="color"
+                value={object.color}
+                onChange={(e) => { handleChange('color', e.target.value); onCommit(); }} 
+                className="h-10 w-16 p-0 border border-gray-300 rounded cursor-pointer bg-gray-50"
+              />
+              <input 
+                 type="text"
+                 value={object.color}
+                 onChange={(e) => handleChange('color', e.target.value)}
+                 onBlur={onCommit}
+                 onKeyDown={handleKeyDown}
+                 className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* 实体/孔切换：孔对象在合并和导出时从实体中减去 */}
+          <div className="mb-6">
+            <label className="block text-sm font-bold text-gray-500 uppercase mb-2">类型</label>
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map(hole => {
+                const active = !!object.isHole === hole;
+                return (
+                  <button
+                    key={String(hole)}
+                    onClick={() => !active && onToggleHole?.()}
+                    disabled={isLocked}
+                    className={`px-3 py-2 rounded border text-base transition-colors ${active ? 'bg-blue-50 border-blue-300 text-blue-800 font-medium' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'} ${isLocked ? 'cursor-not-allowed opacity-60' : ''}`}
+                  >
+                    <i className={`fa-solid ${hole ? 'fa-border-none' : 'fa-cube'} mr-2`}></i>{hole ? '孔' : '实体'}
+                  </button>
+                );
+              })}
+            </div>
+            {object.isHole && <div className="text-xs text-gray-400 mt-1">合并或导出时从与之重叠的实体中减去</div>}
+          </div>
+        </>
+      )}
 
       {/* 对象位置编辑 (X, Y, Z) */}
       <div className="mb-6">
@@ -307,8 +467,9 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
                 <input 
                     id="scale-lock-checkbox"
                     type="checkbox" 
-                    checked={lockScale} 
+                    checked={uniformScale} 
                     onChange={(e) => setLockScale(e.target.checked)}
+                    disabled={object.type === 'group'}
                     className="w-5 h-5 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2 cursor-pointer"
                 />
                 <label htmlFor="scale-lock-checkbox" className="ml-2 text-base text-gray-600 cursor-pointer select-none">
@@ -334,12 +495,112 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
         </div>
       </div>
       
+      {/* 子对象提示 */}
+      {isChildObject && (
+        <div className="mb-6 p-3 bg-purple-50 text-purple-800 text-base rounded border border-purple-100 flex items-start gap-2">
+           <i className="fa-solid fa-sitemap mt-1"></i> 
+           <span>此对象是布尔运算节点、阵列节点或组的子对象，位置相对于父节点。修改参数或变换后父节点会自动重新计算。</span>
+        </div>
+      )}
+
       {/* 几何参数编辑 */}
-      {object.type !== 'custom' && (
+      {object.type !== 'custom' && object.type !== 'boolean' && object.type !== 'group' && (
         <div className="mb-6">
           <label className="block text-sm font-bold text-gray-500 uppercase mb-3 border-b border-gray-200 pb-1">几何参数</label>
           
           <div className="space-y-4">
+            {/* 阵列节点：类型、数量以及间距或旋转轴（源对象的参数在对象列表中展开节点后编辑） */}
+            {object.type === 'pattern' && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">阵列类型</label>
+                    <select
+                      value={object.params.patternType || 'linear'}
+                      onChange={(e) => handleParamChange('patternType', e.target.value)}
+                      onBlur={onCommit}
+                      className={inputClass}
+                      disabled={isLocked}
+                    >
+                      <option value="linear">线性阵列</option>
+                      <option value="circular">环形阵列</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">数量 (Count)</label>
+                    <NumericInput
+                      type="number"
+                      value={getPatternCount(object.params)}
+                      onChange={(val) => {
+                        const count = Number(val);
+                        if (Number.isInteger(count) && count >= MIN_PATTERN_COUNT && count <= MAX_PATTERN_COUNT) handleParamChange('count', val);
+                      }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={MIN_PATTERN_COUNT}
+                      max={MAX_PATTERN_COUNT}
+                      step={1}
+                      disabled={isLocked}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-base text-gray-600 block mb-1">
+                    {object.params.patternType === 'circular' ? '旋转轴方向 (X, Y, Z)' : '间距 (X, Y, Z)'}
+                  </label>
+                  <div className="grid grid-cols-3 gap-3">
+                    {(object.params.patternType === 'circular'
+                      ? object.params.axis || DEFAULT_PATTERN_AXIS
+                      : object.params.spacing || DEFAULT_PATTERN_SPACING
+                    ).map((v, axis) => (
+                      <NumericInput
+                        key={axis}
+                        type="number"
+                        value={v}
+                        onChange={(val) => handleVectorParamChange(object.params.patternType === 'circular' ? 'axis' : 'spacing', axis, val)}
+                        onCommit={onCommit}
+                        className={inputClass}
+                        disabled={isLocked}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <p className="text-sm text-gray-400">在左侧对象列表中展开此节点，选择源对象即可修改其参数，所有实例同步更新。</p>
+              </>
+            )}
+
+            {/* 扫掠体截面形状和路径类型 */}
+            {object.type === 'sweep' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-base text-gray-600 block mb-1">截面 (Section)</label>
+                  <select
+                    value={object.params.section || 'circle'}
+                    onChange={(e) => handleParamChange('section', e.target.value)}
+                    onBlur={onCommit}
+                    className={inputClass}
+                    disabled={isLocked}
+                  >
+                    <option value="circle">圆形</option>
+                    <option value="rectangle">矩形</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-base text-gray-600 block mb-1">路径 (Path)</label>
+                  <select
+                    value={object.params.pathType || 'polyline'}
+                    onChange={(e) => handleParamChange('pathType', e.target.value)}
+                    onBlur={onCommit}
+                    className={inputClass}
+                    disabled={isLocked}
+                  >
+                    <option value="polyline">折线</option>
+                    <option value="spline">样条曲线</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
             {/* 文本内容编辑 */}
             {object.type === 'text' && (
                <div>
@@ -355,10 +616,33 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
                </div>
             )}
 
+            {/* 字体选择 */}
+            {object.type === 'text' && (
+               <div>
+                  <label className="text-base text-gray-600 block mb-1">字体 (Font)</label>
+                  <select
+                    value={getFontId(object.params)}
+                    onChange={(e) => handleParamChange('font', e.target.value)}
+                    onBlur={onCommit}
+                    className={inputClass}
+                    disabled={isLocked}
+                  >
+                    {TEXT_FONTS.map(f => (
+                      <option key={f.id} value={f.id}>{f.label}</option>
+                    ))}
+                  </select>
+                  {missingGlyphs.length > 0 && (
+                    <div className="text-xs text-orange-500 mt-1">
+                      当前字体缺少以下字符，将显示为"?"：{missingGlyphs.join(' ')}
+                    </div>
+                  )}
+               </div>
+            )}
+
             {/* 宽度参数编辑 */}
-            {(object.params.width !== undefined) && (
+            {(object.params.width !== undefined) && !isCircleSweep && !(object.type === 'thread' && object.params.threadType !== 'nut') && (
               <div>
-                <label className="text-base text-gray-600 block mb-1">宽度 (Width)</label>
+                <label className="text-base text-gray-600 block mb-1">{object.type === 'sweep' ? '截面宽度 (Width)' : object.type === 'thread' ? '螺母对边宽度 (Width)' : '宽度 (Width)'}</label>
                 <NumericInput
                   type="number"
                   value={object.params.width}
@@ -371,10 +655,10 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
             )}
             
             {/* 高度/厚度参数编辑 */}
-            {(object.params.height !== undefined) && (
+            {(object.params.height !== undefined) && !isCircleSweep && (
               <div>
                 <label className="text-base text-gray-600 block mb-1">
-                    {object.type === 'text' ? '厚度/挤出 (Depth)' : '高度 (Height)'}
+                    {object.type === 'text' ? '厚度/挤出 (Depth)' : object.type === 'sweep' ? '截面高度 (Height)' : object.type === 'gear' ? '齿宽 (Face Width)' : object.type === 'thread' ? '长度 (Length)' : object.type === 'capsule' ? '总高度 (Height)' : '高度 (Height)'}
                 </label>
                 <NumericInput
                   type="number"
@@ -403,10 +687,10 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
             )}
             
             {/* 半径参数编辑 */}
-            {(object.params.radius !== undefined) && (
+            {(object.params.radius !== undefined) && !isRectangleSweep && (
               <div>
                 <label className="text-base text-gray-600 block mb-1">
-                    {object.type === 'text' ? '字号 (Size)' : '半径 (Radius)'}
+                    {object.type === 'text' ? '字号 (Size)' : object.type === 'sweep' ? '截面半径 (Radius)' : object.type === 'tube' ? '外径 (Outer Radius)' : object.type === 'torus' ? '环半径 (Major Radius)' : object.type === 'polygon_prism' || object.type === 'star' ? '外接圆半径 (Radius)' : '半径 (Radius)'}
                 </label>
                 <NumericInput
                   type="number"
@@ -423,7 +707,7 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
             {(object.params.tube !== undefined) && (
                <div>
                 <label className="text-base text-gray-600 block mb-1">
-                  {object.type === 'torus' ? '内径 (Inner Radius)' : '管径 (Tube)'}
+                  {object.type === 'ring' ? '内径 (Inner Radius)' : object.type === 'torus' ? '截面半径 (Minor Radius)' : '管径 (Tube)'}
                 </label>
                 <NumericInput
                   type="number"
@@ -435,10 +719,424 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ object, select
                 />
               </div>
             )}
+
+            {/* 螺纹参数 */}
+            {object.type === 'thread' && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">类型</label>
+                    <select
+                      value={object.params.threadType || 'rod'}
+                      onChange={(e) => handleParamChange('threadType', e.target.value)}
+                      onBlur={onCommit}
+                      className={inputClass}
+                      disabled={isLocked}
+                    >
+                      <option value="rod">螺杆（外螺纹）</option>
+                      <option value="nut">六角螺母</option>
+                      <option value="hole">螺纹孔（切割用）</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">规格</label>
+                    <select
+                      value={METRIC_THREADS.find(t => t.diameter === object.params.diameter && t.pitch === object.params.pitch)?.name || ''}
+                      onChange={(e) => {
+                        const spec = METRIC_THREADS.find(t => t.name === e.target.value);
+                        if (spec) onUpdate({ params: { ...object.params, diameter: spec.diameter, pitch: spec.pitch, width: spec.nutWidth } });
+                      }}
+                      onBlur={onCommit}
+                      className={inputClass}
+                      disabled={isLocked}
+                    >
+                      <option value="" disabled>自定义</option>
+                      {METRIC_THREADS.map(t => (
+                        <option key={t.name} value={t.name}>{t.name} × {t.pitch}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">公称直径 (D)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.diameter ?? 8}
+                      onChange={(val) => { if (Number(val) > 0) handleParamChange('diameter', val); }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={0.5}
+                      disabled={isLocked}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">螺距 (Pitch)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.pitch ?? 1.25}
+                      onChange={(val) => { if (Number(val) > 0) handleParamChange('pitch', val); }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={0.1}
+                      step="0.05"
+                      disabled={isLocked}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">配合间隙</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.tolerance ?? 0}
+                      onChange={(val) => { if (Number(val) >= 0) handleParamChange('tolerance', val); }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={0}
+                      step="0.05"
+                      disabled={isLocked}
+                    />
+                  </div>
+                </div>
+                <div className="text-xs text-gray-400">
+                  配合间隙为径向总间隙，螺杆和螺纹孔/螺母各让出一半（FDM打印建议0.2~0.4）。同轴的螺杆与螺母/螺纹孔中心沿轴向相距螺距的整数倍（包括重合）时牙型相互吻合。
+                  {object.params.threadType === 'hole' && ' 螺纹孔是切割工具：选中零件后点击"切割"，再点击此对象即可切出内螺纹。'}
+                </div>
+              </div>
+            )}
+
+            {/* 齿轮参数：修改后齿廓实时重新生成 */}
+            {object.type === 'gear' && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">模数 (Module)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.module ?? 1}
+                      onChange={(val) => { if (Number(val) > 0) handleParamChange('module', val); }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={0.1}
+                      step="0.5"
+                      disabled={isLocked}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">齿数 (Teeth)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.teeth ?? 20}
+                      onChange={(val) => {
+                        const teeth = Math.round(Number(val));
+                        if (teeth >= MIN_GEAR_TEETH && teeth <= MAX_GEAR_TEETH) handleParamChange('teeth', String(teeth));
+                      }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={MIN_GEAR_TEETH}
+                      max={MAX_GEAR_TEETH}
+                      step="1"
+                      disabled={isLocked}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">压力角 (°)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.pressureAngle ?? 20}
+                      onChange={(val) => {
+                        const angle = Number(val);
+                        if (angle >= MIN_PRESSURE_ANGLE && angle <= MAX_PRESSURE_ANGLE) handleParamChange('pressureAngle', val);
+                      }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={MIN_PRESSURE_ANGLE}
+                      max={MAX_PRESSURE_ANGLE}
+                      disabled={isLocked}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">轴孔直径 (Bore)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.bore ?? 0}
+                      onChange={(val) => { if (Number(val) >= 0) handleParamChange('bore', val); }}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={0}
+                      disabled={isLocked}
+                    />
+                  </div>
+                </div>
+                {(() => {
+                  const dims = getGearDimensions(object.params);
+                  return (
+                    <div className="text-xs text-gray-400">
+                      分度圆直径 {Number((dims.pitchRadius * 2).toFixed(2))}，齿顶圆直径 {Number((dims.outerRadius * 2).toFixed(2))}；
+                      两齿轮啮合时中心距 = 模数 × (齿数1 + 齿数2) / 2（模数和压力角须相同）
+                      {(object.params.bore || 0) / 2 > dims.boreRadius && '。轴孔过大，已限制在齿根圆以内'}
+                    </div>
+                  );
+                })()}
+              </div>
+            )}
+
+            {/* 正多棱柱边数 / 星形角数 */}
+            {(object.params.sides !== undefined) && (
+              <div>
+                <label className="text-base text-gray-600 block mb-1">
+                  {object.type === 'star' ? '角数 (Points)' : '边数 (Sides)'}
+                </label>
+                <NumericInput
+                  type="number"
+                  value={object.params.sides}
+                  onChange={(val) => { if (Number(val) >= 3) handleParamChange('sides', String(Math.round(Number(val)))); }}
+                  onCommit={onCommit}
+                  className={inputClass}
+                  min={3}
+                  step="1"
+                  disabled={isLocked}
+                />
+              </div>
+            )}
+
+            {/* 星形内半径 */}
+            {(object.params.innerRadius !== undefined) && (
+              <div>
+                <label className="text-base text-gray-600 block mb-1">内半径 (Inner Radius)</label>
+                <NumericInput
+                  type="number"
+                  value={object.params.innerRadius}
+                  onChange={(val) => handleParamChange('innerRadius', val)}
+                  onCommit={onCommit}
+                  className={inputClass}
+                  min={0}
+                  max={object.params.radius}
+                  disabled={isLocked}
+                />
+              </div>
+            )}
+
+            {/* 圆管壁厚 */}
+            {(object.params.thickness !== undefined) && (
+              <div>
+                <label className="text-base text-gray-600 block mb-1">壁厚 (Thickness)</label>
+                <NumericInput
+                  type="number"
+                  value={object.params.thickness}
+                  onChange={(val) => handleParamChange('thickness', val)}
+                  onCommit={onCommit}
+                  className={inputClass}
+                  min={0}
+                  max={object.params.radius}
+                  disabled={isLocked}
+                />
+              </div>
+            )}
+
+            {/* 边缘圆角/倒角 */}
+            {EDGE_TREATMENT_TYPES.includes(object.type) && (
+              <div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">圆角 (Fillet)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.filletRadius ?? 0}
+                      onChange={(val) => handleEdgeChange('filletRadius', val)}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={0}
+                      max={getMaxEdgeSize(object.type, object.params)}
+                      disabled={isLocked}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-base text-gray-600 block mb-1">倒角 (Chamfer)</label>
+                    <NumericInput
+                      type="number"
+                      value={object.params.chamfer ?? 0}
+                      onChange={(val) => handleEdgeChange('chamfer', val)}
+                      onCommit={onCommit}
+                      className={inputClass}
+                      min={0}
+                      max={getMaxEdgeSize(object.type, object.params)}
+                      disabled={isLocked}
+                    />
+                  </div>
+                </div>
+                <div className="text-xs text-gray-400 mt-1">
+                  最大 {Number(getMaxEdgeSize(object.type, object.params).toFixed(2))}（最小尺寸的一半），圆角与倒角只能二选一
+                </div>
+              </div>
+            )}
+
+            {/* 旋转体的扫掠角度、圆环体的圆弧角度 */}
+            {(object.type === 'revolve' || object.type === 'torus' || (object.type === 'pattern' && object.params.patternType === 'circular')) && (
+              <div>
+                <label className="text-base text-gray-600 block mb-1">{object.type === 'torus' ? '圆弧角度 (Arc °)' : object.type === 'pattern' ? '总角度 (Total °)' : '旋转角度 (Angle °)'}</label>
+                <NumericInput
+                  type="number"
+                  value={object.params.angle ?? 360}
+                  onChange={(val) => {
+                    const angle = Number(val);
+                    if (angle > 0 && angle <= 360) handleParamChange('angle', val);
+                  }}
+                  onCommit={onCommit}
+                  className={inputClass}
+                  min={1}
+                  max={360}
+                  disabled={isLocked}
+                />
+              </div>
+            )}
+            {object.type === 'revolve' && object.params.profile && (
+              <div>
+                <label className="text-base text-gray-600 block mb-1">轮廓点 (到轴距离, 高度)</label>
+                <div className="space-y-1">
+                  {object.params.profile.map(([r, h], i) => (
+                    <div key={i} className="flex items-center gap-1">
+                      <span className="w-5 text-xs text-gray-400 text-right">{i + 1}</span>
+                      <NumericInput
+                        type="number"
+                        value={r}
+                        onChange={(val) => handleProfileChange(i, 0, val)}
+                        onCommit={onCommit}
+                        className={inputClass}
+                        min={0}
+                        disabled={isLocked}
+                      />
+                      <NumericInput
+                        type="number"
+                        value={h}
+                        onChange={(val) => handleProfileChange(i, 1, val)}
+                        onCommit={onCommit}
+                        className={inputClass}
+                        disabled={isLocked}
+                      />
+                      <button
+                        onClick={() => handleInsertProfilePoint(i)}
+                        onBlur={onCommit}
+                        disabled={isLocked}
+                        className="w-7 flex-shrink-0 text-gray-400 hover:text-blue-600 disabled:opacity-40"
+                        title="在此点之后插入一个点"
+                      >
+                        <i className="fa-solid fa-plus"></i>
+                      </button>
+                      <button
+                        onClick={() => handleRemoveProfilePoint(i)}
+                        onBlur={onCommit}
+                        disabled={isLocked || object.params.profile!.length <= 3}
+                        className="w-7 flex-shrink-0 text-gray-400 hover:text-red-600 disabled:opacity-40"
+                        title="删除此点"
+                      >
+                        <i className="fa-solid fa-minus"></i>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* 扫掠路径控制点（局部坐标，也可在视口中点击控制点拖动） */}
+            {object.type === 'sweep' && object.params.path && (
+              <div>
+                <label className="text-base text-gray-600 block mb-1">路径控制点 (X, Y, Z)</label>
+                <div className="space-y-1">
+                  {object.params.path.map((point, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                      <span className="w-5 text-xs text-gray-400 text-right">{i + 1}</span>
+                      {point.map((v, axis) => (
+                        <NumericInput
+                          key={axis}
+                          type="number"
+                          value={v}
+                          onChange={(val) => handlePathChange(i, axis, val)}
+                          onCommit={onCommit}
+                          className={inputClass}
+                          disabled={isLocked}
+                        />
+                      ))}
+                      <button
+                        onClick={() => handleInsertPathPoint(i)}
+                        onBlur={onCommit}
+                        disabled={isLocked}
+                        className="w-7 flex-shrink-0 text-gray-400 hover:text-blue-600 disabled:opacity-40"
+                        title="在此点之后插入一个点"
+                      >
+                        <i className="fa-solid fa-plus"></i>
+                      </button>
+                      <button
+                        onClick={() => handleRemovePathPoint(i)}
+                        onBlur={onCommit}
+                        disabled={isLocked || object.params.path!.length <= 2}
+                        className="w-7 flex-shrink-0 text-gray-400 hover:text-red-600 disabled:opacity-40"
+                        title="删除此点"
+                      >
+                        <i className="fa-solid fa-minus"></i>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* 细分段数编辑：段数越多曲面越光滑，但布尔运算越慢 */}
+            {SEGMENTED_TYPES.includes(object.type) && (
+              <div>
+                <label className="text-base text-gray-600 block mb-1">细分段数 (Segments)</label>
+                <NumericInput
+                  type="number"
+                  value={object.params.segments ?? getSegments(object.params)}
+                  onChange={(val) => handleParamChange('segments', val)}
+                  onCommit={onCommit}
+                  className={inputClass}
+                  min={MIN_SEGMENTS}
+                  max={MAX_SEGMENTS}
+                  step="1"
+                  disabled={isLocked}
+                />
+                <div className="text-xs text-gray-400 mt-1">范围 {MIN_SEGMENTS}~{MAX_SEGMENTS}，影响显示、布尔运算和STL导出的精度</div>
+              </div>
+            )}
           </div>
         </div>
       )}
       
+      {/* 布尔运算节点：显示运算信息并提供烘焙操作 */}
+      {object.type === 'boolean' && (
+        <div className="mb-6">
+          <label className="block text-sm font-bold text-gray-500 uppercase mb-3 border-b border-gray-200 pb-1">布尔运算</label>
+          <div className="text-base text-gray-600 mb-3">
+            {BOOLEAN_OPS[object.booleanOp || 'UNION'].label} · {object.children?.length || 0} 个子对象
+          </div>
+          <p className="text-sm text-gray-400 mb-3">在左侧对象列表中展开此节点，选择子对象即可修改其参数。</p>
+          <button
+            onClick={onBake}
+            disabled={isLocked}
+            className={`w-full px-3 py-2 rounded border text-base font-medium transition-colors ${isLocked ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed' : 'bg-white text-purple-700 border-purple-200 hover:bg-purple-50'}`}
+            title="将运算结果转换为普通网格，之后不可再编辑子对象"
+          >
+            <i className="fa-solid fa-fire mr-2"></i>烘焙为网格
+          </button>
+        </div>
+      )}
+
+      {/* 组：显示成员数量并提供取消编组操作 */}
+      {object.type === 'group' && (
+        <div className="mb-6">
+          <label className="block text-sm font-bold text-gray-500 uppercase mb-3 border-b border-gray-200 pb-1">组</label>
+          <div className="text-base text-gray-600 mb-3">{object.children?.length || 0} 个成员</div>
+          <p className="text-sm text-gray-400 mb-3">移动、旋转或缩放组时所有成员一起变换。在左侧对象列表中展开组，选择成员即可单独修改。</p>
+          {!isChildObject && (
+            <button
+              onClick={onUngroup}
+              disabled={isLocked}
+              className={`w-full px-3 py-2 rounded border text-base font-medium transition-colors ${isLocked ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+            >
+              <i className="fa-solid fa-object-ungroup mr-2"></i>取消编组
+            </button>
+          )}
+        </div>
+      )}
+
       {/* 自定义对象提示 */}
       {object.type === 'custom' && (
         <div className="mb-6 p-3 bg-blue-50 text-blue-800 text-base rounded border border-blue-100 flex items-start gap-2">
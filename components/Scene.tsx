@@ -1,13 +1,16 @@
 // 导入React核心库和Three.js相关模块
-import React, { useRef, useMemo, useEffect, useState, Suspense } from 'react';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
 // 从@react-three/fiber导入Canvas和useThree钩子，用于创建Three.js场景
 import { Canvas, useThree } from '@react-three/fiber';
 // 从@react-three/drei导入常用3D组件和辅助工具
-import { OrbitControls, TransformControls, GizmoHelper, GizmoViewcube, Text3D, Center } from '@react-three/drei';
+import { OrbitControls, TransformControls, GizmoHelper, GizmoViewcube } from '@react-three/drei';
 // 导入Three.js核心库
 import * as THREE from 'three';
 // 导入自定义类型定义
-import { CADObject, WorkPlaneState } from '../types';
+import { CADObject, WorkPlaneState, SketchState, Point2, Point3, RevolveAxis } from '../types';
+import { areGeometriesReady, createGeometry, getSweepPathPoints } from '../geometry';
+import { evaluateNodeResults } from '../csg_client';
+import { getWorkPlaneQuaternion, snapSketchPoint, rectanglePoints, circlePoints, arcThroughPoints } from '../sketch';
 
 // 修复TypeScript中缺少JSX IntrinsicElements的问题
 // 我们扩展全局JSX命名空间以包含Three.js元素
@@ -49,148 +52,99 @@ interface SceneProps {
   transformMode: 'translate' | 'rotate' | 'scale'; // 变换模式
   workPlane: WorkPlaneState; // 工作平面状态
   floorMode: boolean; // 基准面模式
+  clashIds?: string[]; // 干涉检查中相互穿透的对象ID（高亮显示）
+  sketch?: SketchState | null; // 正在进行的草图（工作平面激活时在平面上绘制）
+  onSketchClick?: (point: Point2) => void; // 草图中点击工作平面的回调（平面局部坐标）
 }
 
 // 定义工作区边界范围
 const SCENE_EXTENT = 500; // 从中心向外延伸500单位（总大小1000x1000x1000）
 
+// 可重用函数：禁用射线投射（防止对象阻挡点击事件）
+const ignoreRaycast = () => null;
+
+// 按需加载对象（包括子对象）中文字用到的字体，并在Web Worker中求值尚未求值的布尔节点和组，
+// 完成后返回新的版本号以便重新获取几何体（在此之前createGeometry返回占位几何体）
+const useGeometryVersion = (obj: CADObject) => {
+  const [geometryVersion, setGeometryVersion] = useState(0);
+  useEffect(() => {
+    if (areGeometriesReady([obj])) return;
+    let cancelled = false;
+    evaluateNodeResults([obj]).then(() => { if (!cancelled) setGeometryVersion(v => v + 1); });
+    return () => { cancelled = true; };
+  }, [obj]);
+  return geometryVersion;
+};
+
+// ChildGhosts组件：以线框显示布尔运算节点或阵列节点中被选中的子对象，便于编辑时观察其位置
+const ChildGhosts: React.FC<{ items: CADObject[]; selectedIds: string[] }> = ({ items, selectedIds }) => {
+  return (
+    <>
+      {items.map(child => (
+        <group key={child.id} position={child.position} rotation={child.rotation} scale={child.scale}>
+          {selectedIds.includes(child.id) && <ChildGhostMesh obj={child} />}
+          {child.children && <ChildGhosts items={child.children} selectedIds={selectedIds} />}
+        </group>
+      ))}
+    </>
+  );
+};
+
+// ChildGhostMesh组件：单个子对象的线框（不参与射线拾取）
+const ChildGhostMesh: React.FC<{ obj: CADObject }> = ({ obj }) => {
+  const geometryVersion = useGeometryVersion(obj);
+  const geom = useMemo(() => createGeometry(obj), [obj.type, obj.params, obj.geometryData, obj.children, geometryVersion]);
+  return (
+    <mesh geometry={geom} raycast={ignoreRaycast}>
+      <meshBasicMaterial color="#f59e0b" wireframe transparent opacity={0.6} depthTest={false} />
+    </mesh>
+  );
+};
+
+// 孔对象以半透明灰色显示，并按屏幕坐标叠加斜向条纹（与几何体的UV无关，导入网格同样适用）
+const HOLE_COLOR = '#9ca3af';
+const applyHoleStripes = (shader: { fragmentShader: string }) => {
+  shader.fragmentShader = shader.fragmentShader.replace(
+    '#include <dithering_fragment>',
+    `#include <dithering_fragment>
+    float holeStripe = step(0.5, fract((gl_FragCoord.x + gl_FragCoord.y) / 16.0));
+    gl_FragColor.rgb = mix(gl_FragColor.rgb, vec3(1.0), holeStripe * 0.4);`
+  );
+};
+const holeProgramKey = () => 'hole-stripes';
+
 // MeshComponent组件：负责渲染单个CAD对象
 const MeshComponent: React.FC<{
   obj: CADObject; // 要渲染的CAD对象
   isSelected: boolean; // 是否被选中
+  isClashing: boolean; // 是否在干涉检查中与其他对象穿透
+  selectedIds: string[]; // 当前选中的对象ID（用于显示选中的子对象）
+  interactive: boolean; // 是否响应点击（绘制草图时对象不拦截点击）
   onSelect: (id: string | null, point?: THREE.Vector3, normal?: THREE.Vector3) => void; // 选择回调
-}> = ({ obj, isSelected, onSelect }) => {
+}> = ({ obj, isSelected, isClashing, selectedIds, interactive, onSelect }) => {
+  // 选中高亮优先，其次为干涉高亮
+  const emissive = isSelected ? "#3b82f6" : isClashing ? "#dc2626" : "#000000";
   // 创建网格引用，用于访问Three.js对象
   const meshRef = useRef<THREE.Mesh>(null);
 
-  // 使用useMemo缓存几何体，只有当对象类型或参数改变时才重新创建
-  const geometry = useMemo(() => {
-    const { params, type } = obj;
-    // 根据对象类型创建对应的几何体
-    if (type === 'cube') {
-      return <boxGeometry args={[params.width, params.height, params.depth]} />;
-    } else if (type === 'sphere') {
-      return <sphereGeometry args={[params.radius, 32, 32]} />;
-    } else if (type === 'cylinder') {
-      return <cylinderGeometry args={[params.radius, params.radius, params.height, 32]} />;
-    } else if (type === 'cone') {
-      return <coneGeometry args={[params.radius, params.height, 32]} />;
-    } else if (type === 'prism') {
-      return <cylinderGeometry args={[params.radius, params.radius, params.height, 3]} />;
-    } else if (type === 'hemisphere') {
-      // 创建半球几何体
-      const points = [];
-      points.push(new THREE.Vector2(0, 0));
-      for (let i = 0; i <= 32; i++) {
-        const phi = (i / 32) * (Math.PI / 2);
-        points.push(new THREE.Vector2(params.radius * Math.cos(phi), params.radius * Math.sin(phi)));
-      }
-      points.push(new THREE.Vector2(0, params.radius));
-      points.push(new THREE.Vector2(0, 0));
-
-      const geom = new THREE.LatheGeometry(points, 32);
-      geom.center();
-      return <primitive object={geom} attach="geometry" />;
-    } else if (type === 'half_cylinder') {
-      // 创建半圆柱几何体
-      const shape = new THREE.Shape();
-      shape.absarc(0, 0, params.radius, 0, Math.PI, false);
-      shape.lineTo(params.radius, 0);
-
-      const geom = new THREE.ExtrudeGeometry(shape, {
-        depth: params.height,
-        bevelEnabled: false,
-        curveSegments: 32
-      });
-      geom.center(); 
-      geom.rotateX(-Math.PI / 2); 
-      return <primitive object={geom} attach="geometry" />;
-    } else if (type === 'torus') {
-      // 创建空心圆柱（拉伸带孔的形状）
-      const shape = new THREE.Shape();
-      shape.absarc(0, 0, params.radius, 0, Math.PI * 2, false);
-
-      const holePath = new THREE.Path();
-      holePath.absarc(0, 0, params.tube, 0, Math.PI * 2, true);
-      shape.holes.push(holePath);
-
-      const geom = new THREE.ExtrudeGeometry(shape, {
-        depth: params.height,
-        bevelEnabled: false,
-        curveSegments: 32
-      });
-      geom.center();
-      // 拉伸沿Z轴，旋转使其直立（沿Y轴）
-      geom.rotateX(-Math.PI / 2);
-      
-      return <primitive object={geom} attach="geometry" />;
-    } else if (type === 'custom' && obj.geometryData) {
-      // 处理自定义几何体（如布尔运算结果）
-      const loader = new THREE.BufferGeometryLoader();
-      const geom = loader.parse(obj.geometryData);
-      return <primitive object={geom} attach="geometry" />;
-    }
-    return null;
-  }, [obj.type, obj.params, obj.geometryData]);
+  // 几何体统一由createGeometry生成并缓存，只有当对象类型、参数、字体加载或布尔节点求值状态改变时才重新获取
+  const geometryVersion = useGeometryVersion(obj);
+  const geometry = useMemo(() => createGeometry(obj), [obj.type, obj.params, obj.geometryData, obj.children, geometryVersion]);
 
   // 处理对象点击事件
   const handleClick = (e: any) => {
+    // 扫掠路径的控制点位于实体内部，点击命中控制点时交给控制点处理
+    if (e.intersections.some((i: any) => i.object.userData?.pathHandle)) return;
     e.stopPropagation();
     const face = e.face;
     let normal = new THREE.Vector3(0, 1, 0);
-    // 对于Text3D，meshRef可能指向内部网格（如果被包装）或组
-    // 但是，事件冒泡通常会给我们提供对象
     if (face && e.object) {
-        // 将法向量转换为世界空间
-        normal = face.normal.clone().applyQuaternion(e.object.quaternion).normalize();
+        // 将法向量转换为世界空间（组的成员还需要叠加组的旋转）
+        normal = face.normal.clone().applyQuaternion(e.object.getWorldQuaternion(new THREE.Quaternion())).normalize();
     }
     onSelect(obj.id, e.point, normal);
   };
 
-  // 特殊处理文本对象，它渲染为不同类型的组件
-  if (obj.type === 'text') {
-      return (
-          <group
-            position={obj.position}
-            rotation={obj.rotation}
-            scale={obj.scale}
-            userData={{ id: obj.id }}
-            onClick={handleClick}
-          >
-              <Suspense fallback={
-                  // 悬停加载状态：显示线框立方体
-                  <mesh>
-                      <boxGeometry args={[obj.params.radius || 20, obj.params.radius || 20, obj.params.height || 5]} />
-                      <meshBasicMaterial color="red" wireframe />
-                  </mesh>
-              }>
-                  <Center top>
-                      <Text3D
-                        // 使用可靠的CDN和特定版本确保字体加载
-                        font="https://cdn.jsdelivr.net/npm/three@0.160.0/examples/fonts/helvetiker_regular.typeface.json"
-                        size={obj.params.radius || 20}
-                        height={obj.params.height || 5}
-                        curveSegments={6}
-                        bevelEnabled
-                        bevelThickness={1}
-                        bevelSize={0.5}
-                        bevelOffset={0}
-                        bevelSegments={3}
-                      >
-                        {obj.params.text || 'TEXT'}
-                        <meshStandardMaterial
-                            color={obj.color}
-                            emissive={isSelected ? "#3b82f6" : "#000000"}
-                            roughness={0.4} 
-                            metalness={0.3}
-                        />
-                      </Text3D>
-                  </Center>
-              </Suspense>
-          </group>
-      )
-  }
-
   // 渲染普通3D对象网格
   return (
     <mesh
@@ -200,50 +154,92 @@ const MeshComponent: React.FC<{
       scale={obj.scale}
       userData={{ id: obj.id }}
       onClick={handleClick}
+      raycast={interactive ? THREE.Mesh.prototype.raycast : ignoreRaycast}
     >
-      {geometry}
-      <meshStandardMaterial
-        color={obj.color}
-        emissive={isSelected ? "#3b82f6" : "#000000"}
-        roughness={0.85} 
-        metalness={0.1} // 稍微增加金属感以获得更好的环境反射效果
-        polygonOffset={true}
-        polygonOffsetFactor={1}
-        polygonOffsetUnits={1}
-        side={THREE.DoubleSide} 
-      />
+      <primitive object={geometry} attach="geometry" />
+      {obj.isHole ? (
+        <meshStandardMaterial
+          key="hole"
+          color={HOLE_COLOR}
+          emissive={emissive}
+          roughness={0.85}
+          transparent
+          opacity={0.45}
+          depthWrite={false}
+          side={THREE.DoubleSide}
+          onBeforeCompile={applyHoleStripes}
+          customProgramCacheKey={holeProgramKey}
+        />
+      ) : (
+        <meshStandardMaterial
+          color={obj.color}
+          emissive={emissive}
+          roughness={0.85} 
+          metalness={0.1} // 稍微增加金属感以获得更好的环境反射效果
+          polygonOffset={true}
+          polygonOffsetFactor={1}
+          polygonOffsetUnits={1}
+          side={THREE.DoubleSide} 
+        />
+      )}
+      {(obj.type === 'boolean' || obj.type === 'pattern') && obj.children && (
+        <ChildGhosts items={obj.children} selectedIds={selectedIds} />
+      )}
     </mesh>
   );
 };
 
-// 可重用函数：禁用射线投射（防止对象阻挡点击事件）
-const ignoreRaycast = () => null;
+// GroupComponent组件：组本身没有几何体，成员按相对于组的变换渲染并保留各自的颜色
+// 点击任一成员都选中整个组（嵌套的组由最外层的组接收点击）；组被选中时所有成员高亮
+const GroupComponent: React.FC<{
+  obj: CADObject;
+  isSelected: boolean;
+  clashIds: string[];
+  selectedIds: string[];
+  interactive: boolean;
+  onSelect: (id: string | null, point?: THREE.Vector3, normal?: THREE.Vector3) => void;
+}> = ({ obj, isSelected, clashIds, selectedIds, interactive, onSelect }) => {
+  const handleMemberSelect: typeof onSelect = (_id, point, normal) => onSelect(obj.id, point, normal);
+  return (
+    <group position={obj.position} rotation={obj.rotation} scale={obj.scale} userData={{ id: obj.id }}>
+      {(obj.children || []).map(child => (
+        <ObjectComponent
+          key={child.id}
+          obj={child}
+          isSelected={isSelected || selectedIds.includes(child.id)}
+          clashIds={clashIds}
+          selectedIds={selectedIds}
+          interactive={interactive}
+          onSelect={handleMemberSelect}
+        />
+      ))}
+    </group>
+  );
+};
+
+// ObjectComponent组件：按对象类型渲染组或普通网格
+const ObjectComponent: React.FC<{
+  obj: CADObject;
+  isSelected: boolean;
+  clashIds: string[];
+  selectedIds: string[];
+  interactive: boolean;
+  onSelect: (id: string | null, point?: THREE.Vector3, normal?: THREE.Vector3) => void;
+}> = ({ obj, clashIds, ...props }) => obj.type === 'group'
+  ? <GroupComponent obj={obj} clashIds={clashIds} {...props} />
+  : <MeshComponent obj={obj} isClashing={clashIds.includes(obj.id)} {...props} />;
 
 // WorkPlaneHelper组件：可视化工作平面
 const WorkPlaneHelper: React.FC<{ data: WorkPlaneState['planeData'] }> = ({ data }) => {
     // 如果没有平面数据，则不渲染任何内容
     if (!data) return null;
     
-    // 创建位置和法向量向量
-    const pos = new THREE.Vector3(...data.position);
-    const normal = new THREE.Vector3(data.normal[0], data.normal[1], data.normal[2]);
-
-    // 创建虚拟对象用于定向
-    const dummy = new THREE.Object3D();
-    dummy.position.copy(pos);
-    
-    // 防止当朝向平行于默认向上方向(0, 1, 0)时出现奇点
-    // 如果法向量实际上垂直，将向上向量更改为Z以允许正确的方向
-    if (Math.abs(normal.dot(new THREE.Vector3(0, 1, 0))) > 0.99) {
-        dummy.up.set(0, 0, 1);
-    }
-
-    // 设置对象朝向
-    dummy.lookAt(pos.clone().add(normal));
+    // 平面朝向与草图坐标系一致（局部z轴为法向）
+    const quaternion = getWorkPlaneQuaternion(data.normal);
     
     // 显式设置raycast为null以防止阻塞点击
     return (
-        <group position={pos} quaternion={dummy.quaternion}>
+        <group position={data.position} quaternion={quaternion}>
              <gridHelper 
                 args={[200, 20, 0x3b82f6, 0x3b82f6]} 
                 rotation={[Math.PI / 2, 0, 0]} 
@@ -261,6 +257,167 @@ const WorkPlaneHelper: React.FC<{ data: WorkPlaneState['planeData'] }> = ({ data
     )
 }
 
+// SketchLine组件：草图中的折线或闭合轮廓（始终显示在最前面，不参与射线拾取）
+const SketchLine: React.FC<{ points: Point2[]; closed?: boolean; color: string }> = ({ points, closed = false, color }) => {
+  const line = useMemo(() => {
+    const geometry = new THREE.BufferGeometry().setFromPoints(points.map(([x, y]) => new THREE.Vector3(x, y, 0)));
+    const material = new THREE.LineBasicMaterial({ color, depthTest: false });
+    const result = closed ? new THREE.LineLoop(geometry, material) : new THREE.Line(geometry, material);
+    result.renderOrder = 10;
+    result.raycast = ignoreRaycast;
+    return result;
+  }, [points, closed, color]);
+
+  useEffect(() => () => {
+    line.geometry.dispose();
+    (line.material as THREE.Material).dispose();
+  }, [line]);
+
+  return <primitive object={line} />;
+};
+
+// 草图中显示的旋转轴（与工作平面网格等长）
+const REVOLVE_AXIS_LINES: Record<RevolveAxis, Point2[]> = {
+  x: [[-100, 0], [100, 0]],
+  y: [[0, -100], [0, 100]]
+};
+
+// SketchOverlay组件：在工作平面上捕获点击并显示草图轮廓和当前绘制的预览
+const SketchOverlay: React.FC<{
+  plane: NonNullable<WorkPlaneState['planeData']>;
+  sketch: SketchState;
+  onClick: (point: Point2) => void;
+}> = ({ plane, sketch, onClick }) => {
+  const quaternion = useMemo(() => getWorkPlaneQuaternion(plane.normal), [plane.normal]);
+  const [cursor, setCursor] = useState<Point2 | null>(null);
+
+  // 把命中点转换到平面局部坐标并吸附到网格
+  const toSketchPoint = (e: any): Point2 => {
+    const local = e.eventObject.worldToLocal(e.point.clone());
+    return snapSketchPoint(local.x, local.y);
+  };
+
+  // 根据当前工具和光标位置生成预览线
+  const preview = useMemo(() => {
+    const { tool, draft, arcMid } = sketch;
+    if (draft.length === 0) return null;
+    const start = draft[0];
+    const last = draft[draft.length - 1];
+    if (tool === 'rectangle') {
+      return cursor ? { points: rectanglePoints(start, cursor), closed: true } : null;
+    }
+    if (tool === 'circle') {
+      const radius = cursor ? Math.hypot(cursor[0] - start[0], cursor[1] - start[1]) : 0;
+      return radius > 0 ? { points: circlePoints(start, radius), closed: true } : null;
+    }
+    if (tool === 'arc' && arcMid) {
+      const arc = cursor ? arcThroughPoints(last, arcMid, cursor) : null;
+      return { points: [...draft, ...(arc || [arcMid])], closed: false };
+    }
+    return { points: cursor ? [...draft, cursor] : draft, closed: false };
+  }, [sketch, cursor]);
+
+  return (
+    <group position={plane.position} quaternion={quaternion}>
+      <mesh
+        onClick={(e: any) => {
+          e.stopPropagation();
+          onClick(toSketchPoint(e));
+        }}
+        onPointerMove={(e: any) => setCursor(toSketchPoint(e))}
+        onPointerOut={() => setCursor(null)}
+      >
+        <planeGeometry args={[2000, 2000]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} side={THREE.DoubleSide} />
+      </mesh>
+      {/* 旋转轴 */}
+      <SketchLine
+        points={REVOLVE_AXIS_LINES[sketch.revolveAxis]}
+        color="#dc2626"
+      />
+      {sketch.profiles.map((profile, i) => (
+        <SketchLine key={i} points={profile} closed color="#1d4ed8" />
+      ))}
+      {preview && preview.points.length > 1 && (
+        <SketchLine points={preview.points} closed={preview.closed} color="#f59e0b" />
+      )}
+      {cursor && (
+        <mesh position={[cursor[0], cursor[1], 0]} raycast={ignoreRaycast} renderOrder={11}>
+          <sphereGeometry args={[0.8, 8, 8]} />
+          <meshBasicMaterial color="#f59e0b" depthTest={false} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+// SweepPathHandles组件：选中扫掠体时显示路径和控制点，点击控制点后可用变换控件拖动它
+const SweepPathHandles: React.FC<{
+  obj: CADObject;
+  activeIndex: number | null; // 正在拖动的控制点
+  onActivate: (index: number) => void;
+  onUpdate: (id: string, updates: Partial<CADObject>) => void;
+  onCommit: () => void;
+}> = ({ obj, activeIndex, onActivate, onUpdate, onCommit }) => {
+  const path = obj.params.path || [];
+  const line = useMemo(() => {
+    const geometry = new THREE.BufferGeometry().setFromPoints(getSweepPathPoints(path, obj.params.pathType));
+    const result = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: "#f59e0b", depthTest: false }));
+    result.renderOrder = 10;
+    result.raycast = ignoreRaycast;
+    return result;
+  }, [path, obj.params.pathType]);
+
+  useEffect(() => () => {
+    line.geometry.dispose();
+    (line.material as THREE.Material).dispose();
+  }, [line]);
+
+  // 控制点的拖动结果即为其在对象局部坐标系中的位置
+  const handleMove = (index: number, p: THREE.Vector3) => {
+    const next = path.map((point, i) => (i === index ? [p.x, p.y, p.z] : point) as Point3);
+    onUpdate(obj.id, { params: { ...obj.params, path: next } });
+  };
+
+  const renderHandle = (index: number) => (
+    <mesh
+      renderOrder={11}
+      userData={{ pathHandle: true }}
+      onClick={(e: any) => {
+        e.stopPropagation();
+        onActivate(index);
+      }}
+    >
+      <sphereGeometry args={[1.5, 12, 12]} />
+      <meshBasicMaterial color={index === activeIndex ? "#3b82f6" : "#f59e0b"} depthTest={false} />
+    </mesh>
+  );
+
+  return (
+    <group position={obj.position} rotation={obj.rotation} scale={obj.scale}>
+      <primitive object={line} />
+      {path.map((point, i) => i === activeIndex ? (
+        <TransformControls
+          key={i}
+          position={point}
+          mode="translate"
+          size={1.5}
+          onObjectChange={(e: any) => {
+            if (e?.target?.object) handleMove(i, e.target.object.position);
+          }}
+          onMouseUp={onCommit}
+        >
+          {renderHandle(i)}
+        </TransformControls>
+      ) : (
+        <group key={i} position={point}>
+          {renderHandle(i)}
+        </group>
+      ))}
+    </group>
+  );
+};
+
 // PlaneConstrainedControls组件：特殊控制器，将移动锁定到平面
 const PlaneConstrainedControls: React.FC<{
   object: CADObject,
@@ -373,16 +530,28 @@ const BoundaryHelper = () => {
 }
 
 // SceneContent组件：场景主要内容
-const SceneContent: React.FC<SceneProps> = ({ objects, selectedIds, onObjectClick, onUpdate, onCommit, transformMode, workPlane, floorMode }) => {
+const SceneContent: React.FC<SceneProps> = ({ objects, selectedIds, onObjectClick, onUpdate, onCommit, transformMode, workPlane, floorMode, clashIds = [], sketch, onSketchClick }) => {
   // 获取场景对象
   const { scene } = useThree();
   // 判断工作平面是否处于激活状态
   const isWorkPlaneActive = workPlane.step === 'ACTIVE' && workPlane.planeData && workPlane.sourceObjId;
+  // 草图模式：对象不响应点击，也不显示变换控件
+  const isSketching = !!sketch && workPlane.step === 'ACTIVE' && !!workPlane.planeData;
 
   // 识别工作平面的活动对象
   const activeObj = isWorkPlaneActive ? objects.find(o => o.id === workPlane.sourceObjId) : null;
   const isSelectedObjActive = activeObj && selectedIds.includes(activeObj.id);
 
+  // 正在拖动的扫掠路径控制点（此时隐藏对象本身的变换控件），选择改变时取消
+  const [activePathPoint, setActivePathPoint] = useState<{ objId: string, index: number } | null>(null);
+  const handleObjectClick: SceneProps['onObjectClick'] = (id, point, normal) => {
+    setActivePathPoint(null);
+    onObjectClick(id, point, normal);
+  };
+  useEffect(() => {
+    setActivePathPoint(prev => (prev && selectedIds.length === 1 && selectedIds[0] === prev.objId ? prev : null));
+  }, [selectedIds]);
+
   return (
     <>
       {/* 高质量光照设置 - 使用简单的环境光和方向光替代HDR贴图 */}
@@ -412,7 +581,7 @@ const SceneContent: React.FC<SceneProps> = ({ objects, selectedIds, onObjectClic
            position={[0, -0.01, 0]}
            onClick={(e) => {
              e.stopPropagation();
-             onObjectClick('GROUND_PLANE', e.point, new THREE.Vector3(0, 1, 0));
+             handleObjectClick('GROUND_PLANE', e.point, new THREE.Vector3(0, 1, 0));
            }}
         >
              <planeGeometry args={[2000, 2000]} />
@@ -423,17 +592,36 @@ const SceneContent: React.FC<SceneProps> = ({ objects, selectedIds, onObjectClic
       {/* 渲染工作平面辅助 */}
       <WorkPlaneHelper data={workPlane.planeData} />
 
+      {/* 草图绘制层 */}
+      {isSketching && sketch && workPlane.planeData && onSketchClick && (
+        <SketchOverlay plane={workPlane.planeData} sketch={sketch} onClick={onSketchClick} />
+      )}
+
       {/* 渲染所有对象 */}
       {objects.map((obj) => (
         <React.Fragment key={obj.id}>
-          <MeshComponent
+          <ObjectComponent
             obj={obj}
             isSelected={selectedIds.includes(obj.id)}
-            onSelect={onObjectClick}
+            clashIds={clashIds}
+            selectedIds={selectedIds}
+            interactive={!isSketching}
+            onSelect={handleObjectClick}
           />
+
+          {/* 扫掠体路径控制点：单选且未锁定时显示 */}
+          {obj.type === 'sweep' && selectedIds.length === 1 && selectedIds[0] === obj.id && !obj.locked && !isSketching && (
+            <SweepPathHandles
+              obj={obj}
+              activeIndex={activePathPoint?.objId === obj.id ? activePathPoint.index : null}
+              onActivate={(index) => setActivePathPoint({ objId: obj.id, index })}
+              onUpdate={onUpdate}
+              onCommit={onCommit}
+            />
+          )}
           
-          {/* 正常控制：仅在选中、单选、不在活动工作平面模式下且未锁定时显示 */}
-          {selectedIds.includes(obj.id) && selectedIds.length === 1 && (!isWorkPlaneActive || obj.id !== workPlane.sourceObjId) && !obj.locked && (
+          {/* 正常控制：仅在选中、单选、不在活动工作平面模式下、未绘制草图、未锁定且未在拖动路径控制点时显示 */}
+          {selectedIds.includes(obj.id) && selectedIds.length === 1 && (!isWorkPlaneActive || obj.id !== workPlane.sourceObjId) && !obj.locked && !isSketching && activePathPoint?.objId !== obj.id && (
             <TransformControls
               object={scene.children.find(c => c.userData && c.userData.id === obj.id)}
               position={obj.position}
@@ -444,6 +632,12 @@ const SceneContent: React.FC<SceneProps> = ({ objects, selectedIds, onObjectClic
               onObjectChange={(e: any) => {
                 if (e?.target?.object) {
                   const o = e.target.object;
+
+                  // 组只能等比例缩放（见属性面板）：拖动单个轴时把该轴的缩放应用到所有轴
+                  if (obj.type === 'group') {
+                    const changed = [o.scale.x, o.scale.y, o.scale.z].find((v: number) => Math.abs(v - obj.scale[0]) > 1e-9);
+                    if (changed !== undefined) o.scale.setScalar(changed);
+                  }
                   
                   o.updateMatrixWorld();
                   const box = new THREE.Box3().setFromObject(o);
@@ -497,7 +691,7 @@ const SceneContent: React.FC<SceneProps> = ({ objects, selectedIds, onObjectClic
       ))}
 
       {/* 平面约束控制：为活动对象显示，隐藏如果锁定 */}
-      {isWorkPlaneActive && isSelectedObjActive && activeObj && !activeObj.locked && workPlane.planeData && (
+      {isWorkPlaneActive && isSelectedObjActive && activeObj && !activeObj.locked && workPlane.planeData && !isSketching && (
         <PlaneConstrainedControls 
           object={activeObj} 
           planeNormal={workPlane.planeData.normal}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ShellOpening, ShellSettings } from '../shell';
+
+// 定义抽壳对话框的属性接口
+interface ShellDialogProps {
+  isOpen: boolean; // 对话框是否打开
+  onClose: () => void; // 关闭对话框的回调函数
+  onConfirm: (settings: ShellSettings) => void; // 确认抽壳的回调函数
+}
+
+const OPENING_OPTIONS: { opening: ShellOpening; label: string }[] = [
+  { opening: 'none', label: '不开口（封闭空心）' },
+  { opening: '+y', label: '顶面 (+Y)' },
+  { opening: '-y', label: '底面 (-Y)' },
+  { opening: '+x', label: '右侧 (+X)' },
+  { opening: '-x', label: '左侧 (-X)' },
+  { opening: '+z', label: '前面 (+Z)' },
+  { opening: '-z', label: '后面 (-Z)' }
+];
+
+// ShellDialog组件：设置壁厚和开口方向
+export const ShellDialog: React.FC<ShellDialogProps> = ({ isOpen, onClose, onConfirm }) => {
+  const [settings, setSettings] = useState<ShellSettings>({ thickness: 2, opening: 'none' });
+
+  if (!isOpen) return null;
+
+  const update = (updates: Partial<ShellSettings>) => setSettings(prev => ({ ...prev, ...updates }));
+  const inputClass = "w-full text-base p-2 border border-gray-300 rounded bg-gray-50 text-gray-800 focus:border-blue-500 focus:outline-none focus:bg-white";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 backdrop-blur-sm flex items-center justify-center z-[9999] p-4">
+      <div className="bg-white border border-gray-300 rounded-2xl shadow-2xl w-full max-w-md p-6">
+        <h2 className="text-xl font-bold text-gray-800 mb-1">
+          <i className="fa-solid fa-box-open mr-2 text-blue-500"></i>抽壳
+        </h2>
+        <p className="text-sm text-gray-500 mb-5">把选中对象挖空为给定壁厚的空心实体，结果转换为网格。</p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-base text-gray-600 block mb-1">壁厚 (Thickness)</label>
+            <input
+              type="number"
+              value={settings.thickness}
+              min={0}
+              step={0.5}
+              onChange={(e) => update({ thickness: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-base text-gray-600 block mb-1">开口 (世界坐标方向)</label>
+            <select
+              value={settings.opening}
+              onChange={(e) => update({ opening: e.target.value as ShellOpening })}
+              className={inputClass}
+            >
+              {OPENING_OPTIONS.map(option => (
+                <option key={option.opening} value={option.opening}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-400 mt-1">法线与开口方向夹角小于 30° 的面会被打开，例如灯罩可选择底面开口。</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(settings)}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors"
+          >
+            <i className="fa-solid fa-check mr-2"></i>抽壳
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 // 导入形状类型定义
-import { ShapeType } from '../types';
+import { ShapeType, BooleanOpType, Point3 } from '../types';
 
 // 定义工具栏组件的属性接口
 interface ToolbarProps {
   onAdd: (type: ShapeType) => void; // 添加对象回调
   onDelete: () => void; // 删除对象回调
-  onBooleanOp: (op: 'UNION' | 'SUBTRACT') => void; // 布尔运算回调
+  onBooleanOp: (op: BooleanOpType) => void; // 布尔运算回调
   onImport: () => void; // 导入STL文件回调
   onExport: () => void; // 导出STL文件回调
   onSaveProject: () => void; // 保存项目回调
@@ -25,6 +25,31 @@ interface ToolbarProps {
   onToggleFloorMode: () => void; // 切换基准面模式回调
   onToggleLock: () => void; // 切换锁定状态回调
   isBooleanOperationRunning?: boolean; // 布尔运算是否正在运行
+  booleanProgress?: number; // 布尔运算进度（0~1）
+  booleanTaskLabel?: string; // 正在运行的后台任务名称
+  onCancelBooleanOp?: () => void; // 取消布尔运算回调
+  onClashCheck?: () => void; // 干涉检查回调
+  canClashCheck?: boolean; // 是否可以进行干涉检查（至少两个对象）
+  onSlice?: () => void; // 用工作平面切割选中对象回调
+  canSlice?: boolean; // 是否可以切片（工作平面已激活且选中一个对象）
+  onSketch?: () => void; // 在工作平面上开始绘制草图回调
+  canSketch?: boolean; // 是否可以开始草图（工作平面已激活）
+  onArray?: () => void; // 打开阵列对话框回调
+  canArray?: boolean; // 是否可以阵列或镜像（选中了顶层对象）
+  onMirror?: () => void; // 打开镜像对话框回调
+  onShell?: () => void; // 打开抽壳对话框回调
+  canShell?: boolean; // 是否可以抽壳（选中一个顶层对象）
+  onCopy?: () => void; // 复制选中对象回调
+  onCut?: () => void; // 剪切选中对象回调
+  onPaste?: () => void; // 粘贴回调
+  onDuplicate?: () => void; // 原地创建副本回调
+  canPaste?: boolean; // 剪贴板中是否有对象
+  pasteOffset?: Point3; // 粘贴和创建副本时的偏移量
+  onPasteOffsetChange?: (offset: Point3) => void; // 修改粘贴偏移量回调
+  onGroup?: () => void; // 编组回调
+  onUngroup?: () => void; // 取消编组回调
+  canGroup?: boolean; // 是否可以编组（选中至少两个顶层对象）
+  canUngroup?: boolean; // 是否可以取消编组（选中的对象中有组）
 }
 
 // Toolbar组件：应用程序的顶部工具栏
@@ -37,8 +62,36 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onOpenLibrary,
   floorMode, onToggleFloorMode,
   onToggleLock,
-  isBooleanOperationRunning = false
+  isBooleanOperationRunning = false,
+  booleanProgress = 0,
+  booleanTaskLabel = '布尔运算中',
+  onCancelBooleanOp,
+  onClashCheck,
+  canClashCheck = false,
+  onSlice,
+  canSlice = false,
+  onSketch,
+  canSketch = false,
+  onArray,
+  canArray = false,
+  onMirror,
+  onShell,
+  canShell = false,
+  onCopy,
+  onCut,
+  onPaste,
+  onDuplicate,
+  canPaste = false,
+  pasteOffset = [10, 0, 10],
+  onPasteOffsetChange,
+  onGroup,
+  onUngroup,
+  canGroup = false,
+  canUngroup = false
 }) => {
+  // 粘贴偏移设置弹出框是否显示
+  const [showPasteOffset, setShowPasteOffset] = useState(false);
+
   // 通用按钮样式 - 缩小尺寸（约0.8倍）
   const btnClass = "px-3 py-2 rounded-lg hover:bg-blue-50 hover:text-blue-700 transition-colors flex items-center gap-2 text-base border border-transparent whitespace-nowrap font-medium text-gray-700";
   const iconBtnClass = "p-2 rounded-lg hover:bg-gray-100 transition-colors text-lg border border-transparent";
@@ -50,6 +103,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   const deleteEnabled = selectionCount > 0 && !isBooleanOperationRunning;
   // 锁定是否可用（至少选中一个对象）
   const lockEnabled = selectionCount > 0 && !isBooleanOperationRunning;
+  // 复制、剪切、创建副本是否可用（至少选中一个对象）
+  const clipboardEnabled = selectionCount > 0 && !isBooleanOperationRunning;
 
   return (
     <div className="flex flex-col gap-2 w-full justify-center">
@@ -76,6 +131,54 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           <i className="fa-solid fa-rotate-right text-gray-500"></i> 重做
         </button>
 
+        <div className="w-px h-6 bg-gray-300"></div>
+
+        {/* 剪贴板工具组：剪贴板在所有标签页之间共享 */}
+        <div className="relative flex items-center gap-1">
+          <button className={`${iconBtnClass} text-gray-600 ${!clipboardEnabled ? disabledClass : ''}`} onClick={onCopy} disabled={!clipboardEnabled} title="复制 (Ctrl+C)">
+            <i className="fa-regular fa-copy"></i>
+          </button>
+          <button className={`${iconBtnClass} text-gray-600 ${!clipboardEnabled ? disabledClass : ''}`} onClick={onCut} disabled={!clipboardEnabled} title="剪切 (Ctrl+X)">
+            <i className="fa-solid fa-scissors"></i>
+          </button>
+          <button className={`${iconBtnClass} text-gray-600 ${!canPaste || isBooleanOperationRunning ? disabledClass : ''}`} onClick={onPaste} disabled={!canPaste || isBooleanOperationRunning} title="粘贴 (Ctrl+V)，可粘贴到其他标签页">
+            <i className="fa-regular fa-paste"></i>
+          </button>
+          <button className={`${iconBtnClass} text-gray-600 ${!clipboardEnabled ? disabledClass : ''}`} onClick={onDuplicate} disabled={!clipboardEnabled} title="创建副本 (Ctrl+D)">
+            <i className="fa-regular fa-clone"></i>
+          </button>
+          <button
+            className={`${iconBtnClass} text-gray-400 text-sm ${showPasteOffset ? 'bg-gray-100' : ''}`}
+            onClick={() => setShowPasteOffset(!showPasteOffset)}
+            title="设置粘贴和创建副本的偏移量"
+          >
+            <i className="fa-solid fa-sliders"></i>
+          </button>
+          {showPasteOffset && (
+            <div className="absolute top-full left-0 mt-2 z-50 bg-white border border-gray-200 rounded-lg shadow-lg p-3 w-64">
+              <div className="text-sm font-bold text-gray-500 mb-2">粘贴偏移 (X, Y, Z)</div>
+              <div className="grid grid-cols-3 gap-2">
+                {['X', 'Y', 'Z'].map((axis, i) => (
+                  <input
+                    key={axis}
+                    type="number"
+                    value={pasteOffset[i]}
+                    title={axis}
+                    onChange={(e) => {
+                      if (e.target.value === '' || e.target.value === '-') return;
+                      const next = [...pasteOffset] as Point3;
+                      next[i] = Number(e.target.value);
+                      onPasteOffsetChange?.(next);
+                    }}
+                    className="w-full text-sm p-1 border border-gray-300 rounded bg-gray-50 focus:border-blue-500 focus:outline-none"
+                  />
+                ))}
+              </div>
+              <div className="text-xs text-gray-400 mt-2">连续粘贴时每次再偏移一次；剪切后第一次粘贴回到原位置。</div>
+            </div>
+          )}
+        </div>
+
         <div className="w-px h-6 bg-gray-300"></div>
         
         {/* 变换工具组 */}
@@ -179,12 +282,45 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('half_cylinder')} disabled={isBooleanOperationRunning} title="半圆柱">
             <i className="fa-solid fa-warehouse"></i>
             </button>
-            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('torus')} disabled={isBooleanOperationRunning} title="圆环">
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('ring')} disabled={isBooleanOperationRunning} title="空心圆柱">
             <i className="fa-solid fa-circle-dot"></i>
             </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('torus')} disabled={isBooleanOperationRunning} title="圆环（可设置圆弧角度）">
+            <i className="fa-solid fa-life-ring"></i>
+            </button>
             <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('text')} disabled={isBooleanOperationRunning} title="3D文本">
             <i className="fa-solid fa-font"></i>
             </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('pyramid')} disabled={isBooleanOperationRunning} title="四棱锥">
+            <i className="fa-solid fa-mountain"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('wedge')} disabled={isBooleanOperationRunning} title="楔形（斜坡）">
+            <i className="fa-solid fa-chart-area"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('capsule')} disabled={isBooleanOperationRunning} title="胶囊">
+            <i className="fa-solid fa-capsules"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('ellipsoid')} disabled={isBooleanOperationRunning} title="椭球">
+            <i className="fa-solid fa-egg"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('polygon_prism')} disabled={isBooleanOperationRunning} title="正多棱柱（可设置边数，例如六角螺母槽）">
+            <i className="fa-solid fa-dice-d6"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('star')} disabled={isBooleanOperationRunning} title="星形">
+            <i className="fa-solid fa-star"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('tube')} disabled={isBooleanOperationRunning} title="圆管（外径+壁厚）">
+            <i className="fa-solid fa-ring"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('gear')} disabled={isBooleanOperationRunning} title="直齿轮（渐开线齿廓）">
+            <i className="fa-solid fa-gear"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('thread')} disabled={isBooleanOperationRunning} title="螺纹（螺杆、螺母或螺纹孔）">
+            <i className="fa-solid fa-screwdriver"></i>
+            </button>
+            <button className={`${iconBtnClass} text-blue-500 ${(isBooleanOperationRunning) ? disabledClass : ''}`} onClick={() => onAdd('sweep')} disabled={isBooleanOperationRunning} title="扫掠体（截面沿路径移动，选中后可拖动路径控制点）">
+            <i className="fa-solid fa-bezier-curve"></i>
+            </button>
         </div>
         
         <div className="w-px h-6 bg-gray-300 mx-2"></div>
@@ -194,8 +330,18 @@ export const Toolbar: React.FC<ToolbarProps> = ({
              <span className="text-gray-400 text-xs font-semibold uppercase mr-2 tracking-wider">编辑:</span>
              
              {isBooleanOperationRunning && (
-                <div className="flex items-center px-3 py-2 text-sm text-blue-600 font-medium">
-                  <i className="fa-solid fa-spinner fa-spin mr-2"></i> 布尔运算中...
+                <div className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 font-medium">
+                  <i className="fa-solid fa-spinner fa-spin"></i> {booleanTaskLabel} {Math.round(booleanProgress * 100)}%
+                  <div className="w-24 h-2 bg-blue-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(booleanProgress * 100)}%` }}></div>
+                  </div>
+                  <button
+                    className="px-2 py-1 rounded border border-red-200 text-red-600 hover:bg-red-50 transition-colors"
+                    onClick={onCancelBooleanOp}
+                    title="取消运算，场景保持不变"
+                  >
+                    <i className="fa-solid fa-xmark mr-1"></i>取消
+                  </button>
                 </div>
              )}
              
@@ -216,7 +362,88 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             >
                 <i className="fa-solid fa-scissors"></i> 切割
             </button>
+
+            <button 
+                className={`${btnClass} ${!booleanEnabled ? disabledClass : ''} text-teal-600`}
+                onClick={() => onBooleanOp('INTERSECT')}
+                disabled={!booleanEnabled}
+                title="相交（保留两个物体的公共部分）"
+            >
+                <i className="fa-solid fa-crop-simple"></i> 相交
+            </button>
             
+            <button 
+                className={`${btnClass} ${!canSlice || isBooleanOperationRunning ? disabledClass : ''} text-purple-600`}
+                onClick={onSlice}
+                disabled={!canSlice || isBooleanOperationRunning}
+                title="用当前工作平面把选中对象切成两半（需先设定工作平面，可在对象列表中选择要切割的对象）"
+            >
+                <i className="fa-solid fa-bread-slice"></i> 切片
+            </button>
+
+            <button 
+                className={`${btnClass} ${!canSketch || isBooleanOperationRunning ? disabledClass : ''} text-blue-600`}
+                onClick={onSketch}
+                disabled={!canSketch || isBooleanOperationRunning}
+                title="在当前工作平面上绘制轮廓并拉伸为实体（需先设定工作平面）"
+            >
+                <i className="fa-solid fa-pen-ruler"></i> 草图
+            </button>
+
+            <button 
+                className={`${btnClass} ${!canArray || isBooleanOperationRunning ? disabledClass : ''} text-indigo-600`}
+                onClick={onArray}
+                disabled={!canArray || isBooleanOperationRunning}
+                title="线性或环形阵列（生成独立副本或随源对象更新的关联阵列）"
+            >
+                <i className="fa-solid fa-grip"></i> 阵列
+            </button>
+
+            <button 
+                className={`${btnClass} ${!canArray || isBooleanOperationRunning ? disabledClass : ''} text-indigo-600`}
+                onClick={onMirror}
+                disabled={!canArray || isBooleanOperationRunning}
+                title="关于世界坐标平面或工作平面镜像选中对象（可保留原对象）"
+            >
+                <i className="fa-solid fa-arrows-left-right"></i> 镜像
+            </button>
+
+            <button 
+                className={`${btnClass} ${!canShell || isBooleanOperationRunning ? disabledClass : ''} text-indigo-600`}
+                onClick={onShell}
+                disabled={!canShell || isBooleanOperationRunning}
+                title="抽壳：把选中对象挖空为给定壁厚的空心实体，可在一侧开口"
+            >
+                <i className="fa-solid fa-box-open"></i> 抽壳
+            </button>
+
+            <button 
+                className={`${btnClass} ${!canClashCheck || isBooleanOperationRunning ? disabledClass : ''} text-red-600`}
+                onClick={onClashCheck}
+                disabled={!canClashCheck || isBooleanOperationRunning}
+                title="干涉检查（列出所有相互穿透的对象）"
+            >
+                <i className="fa-solid fa-triangle-exclamation"></i> 干涉检查
+            </button>
+            
+            <button 
+               className={`${btnClass} ${!canGroup || isBooleanOperationRunning ? disabledClass : ''}`}
+               onClick={onGroup}
+               disabled={!canGroup || isBooleanOperationRunning}
+               title="编组 (Ctrl+G)：选中的对象作为一个整体移动、旋转和缩放"
+            >
+               <i className="fa-solid fa-object-group text-gray-500"></i> 编组
+            </button>
+
+            <button 
+               className={`${btnClass} ${!canUngroup || isBooleanOperationRunning ? disabledClass : ''}`}
+               onClick={onUngroup}
+               disabled={!canUngroup || isBooleanOperationRunning}
+               title="取消编组 (Ctrl+Shift+G)"
+            >
+               <i className="fa-solid fa-object-ungroup text-gray-500"></i> 取消编组
+            </button>
+
             <button 
                className={`${btnClass} ${!lockEnabled ? disabledClass : ''}`}
                onClick={onToggleLock}
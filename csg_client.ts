@@ -0,0 +1,229 @@
+// 布尔运算Web Worker的主线程封装：负责序列化几何体、转发进度以及取消运算
+import * as THREE from 'three';
+import { BooleanOpType, CADObject } from './types';
+import { deserializeGeometry, getTransferables, serializeObject } from './utils';
+import { areGeometriesReady, cacheBooleanResult, cacheGroupResult, createGeometry, ensureAttributes } from './geometry';
+import { loadFontsFor } from './fonts';
+import type { BooleanWorkerRequest, BooleanWorkerResponse, ClashResult } from './csg_worker';
+import type { ShellOpening } from './shell';
+
+export type BooleanJobResult =
+  | { type: 'result'; geometry: THREE.BufferGeometry } // 位于父坐标系中的结果几何体
+  | { type: 'isolated'; indices: number[] } // 没有重叠的工具对象在operands中的下标
+  | { type: 'empty' }
+  | { type: 'cancelled' };
+
+export type ClashJobResult =
+  | { type: 'clashes'; clashes: ClashResult[] } // a/b为objects中的下标
+  | { type: 'cancelled' };
+
+export type ShellJobResult =
+  | { type: 'result'; geometry: THREE.BufferGeometry } // 世界坐标系中的空心实体
+  | { type: 'empty' }
+  | { type: 'cancelled' };
+
+export type SliceJobResult =
+  | { type: 'slice'; pieces: (THREE.BufferGeometry | null)[] } // 世界坐标系中的两半：[法向量一侧, 另一侧]
+  | { type: 'cancelled' };
+
+export interface WorkerJob<T> {
+  promise: Promise<T>;
+  cancel: () => void; // 终止工作线程，场景保持不变
+}
+
+export type BooleanJob = WorkerJob<BooleanJobResult>;
+export type ClashJob = WorkerJob<ClashJobResult>;
+export type SliceJob = WorkerJob<SliceJobResult>;
+export type ShellJob = WorkerJob<ShellJobResult>;
+
+// 启动一个工作线程任务；handle返回非undefined的值时任务结束
+const startWorkerJob = <T extends { type: string }>(
+  request: BooleanWorkerRequest,
+  onProgress: (progress: number) => void,
+  handle: (msg: BooleanWorkerResponse) => T | undefined
+): WorkerJob<T | { type: 'cancelled' }> => {
+  const worker = new Worker(new URL('./csg_worker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: T | { type: 'cancelled' }) => void = () => {};
+
+  const promise = new Promise<T | { type: 'cancelled' }>((resolve, reject) => {
+    let finished = false;
+    const finish = () => {
+      finished = true;
+      worker.terminate();
+    };
+    settle = (result) => {
+      if (finished) return;
+      finish();
+      resolve(result);
+    };
+
+    worker.onmessage = (e: MessageEvent<BooleanWorkerResponse>) => {
+      const msg = e.data;
+      if (finished) return;
+      if (msg.type === 'progress') {
+        onProgress(msg.progress);
+      } else if (msg.type === 'error') {
+        finish();
+        reject(new Error(msg.message));
+      } else {
+        const result = handle(msg);
+        if (result !== undefined) settle(result);
+      }
+    };
+    worker.onerror = (e) => {
+      if (finished) return;
+      finish();
+      reject(new Error(e.message || 'CSG worker failed'));
+    };
+
+    // 序列化在主线程完成（需要访问对象几何体），随后以可转移缓冲区发送
+    try {
+      worker.postMessage(request, request.operands.flatMap(getTransferables));
+    } catch (err) {
+      finish();
+      reject(err);
+    }
+  });
+
+  return {
+    promise,
+    cancel: () => settle({ type: 'cancelled' })
+  };
+};
+
+// 在Web Worker中以operands[0]为主对象，依次与其余对象进行布尔运算，孔对象最后统一减去
+// checkOverlap为false时不检测重叠（不会返回isolated）
+export const runBooleanInWorker = (
+  op: BooleanOpType,
+  operands: CADObject[],
+  onProgress: (progress: number) => void,
+  checkOverlap: boolean = true
+): BooleanJob => {
+  const request: BooleanWorkerRequest = {
+    kind: 'boolean',
+    op,
+    operands: operands.map(serializeObject),
+    holes: operands.map(o => !!o.isHole),
+    checkOverlap
+  };
+  return startWorkerJob<BooleanJobResult>(request, onProgress, (msg) => {
+    switch (msg.type) {
+      case 'isolated':
+        return { type: 'isolated', indices: msg.indices };
+      case 'empty':
+        return { type: 'empty' };
+      case 'result':
+        return { type: 'result', geometry: ensureAttributes(deserializeGeometry(msg.geometry)) };
+    }
+    return undefined;
+  });
+};
+
+// 在Web Worker中检测objects两两之间的干涉（穿透）及其交集体积
+export const runClashCheckInWorker = (
+  objects: CADObject[],
+  onProgress: (progress: number) => void
+): ClashJob => {
+  const request: BooleanWorkerRequest = { kind: 'clash', operands: objects.map(serializeObject) };
+  return startWorkerJob<ClashJobResult>(request, onProgress, (msg) =>
+    msg.type === 'clashes' ? { type: 'clashes', clashes: msg.clashes } : undefined
+  );
+};
+
+// 在Web Worker中用平面把对象切成两个封闭的实体
+export const runSliceInWorker = (
+  obj: CADObject,
+  plane: { position: [number, number, number]; normal: [number, number, number] },
+  onProgress: (progress: number) => void
+): SliceJob => {
+  const request: BooleanWorkerRequest = { kind: 'slice', operands: [serializeObject(obj)], plane };
+  return startWorkerJob<SliceJobResult>(request, onProgress, (msg) =>
+    msg.type === 'slice'
+      ? { type: 'slice', pieces: msg.pieces.map(p => p ? ensureAttributes(deserializeGeometry(p)) : null) }
+      : undefined
+  );
+};
+
+// 在Web Worker中把对象抽壳为给定壁厚的空心实体
+export const runShellInWorker = (
+  obj: CADObject,
+  thickness: number,
+  opening: ShellOpening,
+  onProgress: (progress: number) => void
+): ShellJob => {
+  const request: BooleanWorkerRequest = { kind: 'shell', operands: [serializeObject(obj)], thickness, opening };
+  return startWorkerJob<ShellJobResult>(request, onProgress, (msg) => {
+    switch (msg.type) {
+      case 'empty':
+        return { type: 'empty' };
+      case 'result':
+        return { type: 'result', geometry: ensureAttributes(deserializeGeometry(msg.geometry)) };
+    }
+    return undefined;
+  });
+};
+
+// 正在求值的布尔节点和组（以节点id为键）：同一节点的子对象再次修改时取消旧的求值，旧结果已不再需要
+const nodeJobs = new Map<string, { children: CADObject[]; promise: Promise<void>; cancel: () => void }>();
+
+// 在Web Worker中求值一个布尔节点或组并写入结果缓存；嵌套的节点先求值
+// 组的结果为实体成员的合并再减去组内的孔（即孔参与的合并运算）
+// 子对象组合无法求值或结果为空时（例如不再重叠），布尔节点以主对象、组以各成员直接拼接的几何体作为结果，避免场景崩溃
+const evaluateNode = (node: CADObject): Promise<void> => {
+  const children = node.children!;
+  const running = nodeJobs.get(node.id);
+  if (running && running.children === children) return running.promise;
+  running?.cancel();
+
+  const isGroup = node.type === 'group';
+  const cacheResult = (geometry: THREE.BufferGeometry) => {
+    if (isGroup) cacheGroupResult(children, geometry);
+    else cacheBooleanResult(children, geometry);
+  };
+  let cancelled = false;
+  let job: BooleanJob | null = null;
+  const cacheFallback = () => {
+    if (!cancelled && areGeometriesReady(children)) cacheResult(createGeometry(isGroup ? node : children[0]));
+  };
+  const promise = evaluateNodeResults(children).then(async () => {
+    // 嵌套节点的求值被更新的修改取消时，本节点同样已经过时
+    if (cancelled || !areGeometriesReady(children)) return;
+    job = runBooleanInWorker(isGroup ? 'UNION' : node.booleanOp || 'UNION', children, () => {}, false);
+    const outcome = await job.promise;
+    if (outcome.type === 'result') {
+      cacheResult(outcome.geometry);
+    } else if (outcome.type !== 'cancelled') {
+      cacheFallback();
+    }
+  }).catch((e) => {
+    console.warn("Node evaluation failed", e);
+    cacheFallback();
+  }).finally(() => {
+    if (nodeJobs.get(node.id)?.promise === promise) nodeJobs.delete(node.id);
+  });
+  nodeJobs.set(node.id, {
+    children,
+    promise,
+    cancel: () => {
+      cancelled = true;
+      job?.cancel();
+    }
+  });
+  return promise;
+};
+
+// 求值对象树中所有尚未求值的布尔节点和组（修改子对象、撤销/重做或打开项目之后），完成后createGeometry返回准确的结果
+// 不会失败：字体加载失败时文字保持占位几何体，节点求值失败时使用退回的结果（见evaluateNode）
+export const evaluateNodeResults = async (objects: CADObject[]): Promise<void> => {
+  try {
+    await loadFontsFor(objects);
+  } catch (e) {
+    console.warn("Font loading failed", e);
+    return;
+  }
+  await Promise.all(objects.map(obj => {
+    if (!obj.children || obj.children.length === 0) return undefined;
+    if (obj.type === 'boolean' || obj.type === 'group') return areGeometriesReady([obj]) ? undefined : evaluateNode(obj);
+    return evaluateNodeResults(obj.children);
+  }));
+};
@@ -0,0 +1,187 @@
+// 布尔运算Web Worker：在后台线程中执行three-bvh-csg运算，避免阻塞视口
+import * as THREE from 'three';
+import { Brush, INTERSECTION, SUBTRACTION } from 'three-bvh-csg';
+import { BooleanOpType } from './types';
+import {
+  OVERLAP_EPSILON,
+  SerializedGeometry,
+  brushesOverlap,
+  computeOverlapVolume,
+  deserializeGeometry,
+  getTransferables,
+  serializeGeometry
+} from './utils';
+import { createBooleanEvaluator, finalizeBooleanGeometry, planBooleanSteps } from './geometry';
+import { ShellOpening, createShellGeometry } from './shell';
+
+// 主线程发送的请求：
+// - boolean：operands[0]为主对象，其余为工具对象；holes标记哪些参与对象是孔（最后统一减去）；
+//   checkOverlap为false时跳过重叠检测（重新求值已有的布尔节点时，子对象即使不再重叠也照常运算）
+// - clash：检测operands中两两之间的干涉（穿透）
+// - slice：用平面（世界坐标系中的点和法向量）把operands[0]切成两半
+// - shell：把operands[0]抽壳为给定壁厚的空心实体，可在一个方向上开口
+export type BooleanWorkerRequest =
+  | { kind: 'boolean'; op: BooleanOpType; operands: SerializedGeometry[]; holes: boolean[]; checkOverlap: boolean }
+  | { kind: 'clash'; operands: SerializedGeometry[] }
+  | { kind: 'slice'; operands: SerializedGeometry[]; plane: { position: [number, number, number]; normal: [number, number, number] } }
+  | { kind: 'shell'; operands: SerializedGeometry[]; thickness: number; opening: ShellOpening };
+
+// 干涉检查结果：operands中两个对象的下标及其交集体积
+export interface ClashResult {
+  a: number;
+  b: number;
+  volume: number;
+}
+
+// 工作线程返回的消息
+export type BooleanWorkerResponse =
+  | { type: 'progress'; progress: number } // 0~1
+  | { type: 'isolated'; indices: number[] } // 没有与其他对象重叠的工具对象（在operands中的下标）
+  | { type: 'empty' }
+  | { type: 'result'; geometry: SerializedGeometry }
+  | { type: 'clashes'; clashes: ClashResult[] }
+  | { type: 'slice'; pieces: (SerializedGeometry | null)[] } // [法向量一侧, 另一侧]，某侧为空时为null
+  | { type: 'error'; message: string };
+
+const toBrush = (data: SerializedGeometry) => {
+  const brush = new Brush(deserializeGeometry(data));
+  if (data.matrix) {
+    brush.applyMatrix4(new THREE.Matrix4().fromArray(data.matrix));
+  }
+  brush.updateMatrixWorld();
+  return brush;
+};
+
+const post = (message: BooleanWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// 合并运算允许对象仅表面接触（例如叠放的两个方块），因此只要求边界框相交
+const brushesTouch = (brush1: Brush, brush2: Brush) => {
+  const bbox1 = new THREE.Box3().setFromObject(brush1);
+  const bbox2 = new THREE.Box3().setFromObject(brush2);
+  return bbox1.intersectsBox(bbox2);
+};
+
+const runBoolean = (op: BooleanOpType, operands: SerializedGeometry[], holes: boolean[], checkOverlap: boolean) => {
+  const brushes = operands.map(toBrush);
+  const plan = planBooleanSteps(op, holes);
+  const base = brushes[plan.base];
+  const solids = holes.every(Boolean) ? brushes : brushes.filter((_, i) => !holes[i]);
+  const toolCount = plan.steps.length;
+  // 重叠检测与逐个求值各占一半进度
+  const totalSteps = checkOverlap ? toolCount * 2 : toolCount;
+  let doneSteps = 0;
+  const step = () => {
+    doneSteps++;
+    post({ type: 'progress', progress: doneSteps / totalSteps });
+  };
+
+  // 检测对象是否有重叠：合并时工具对象只需与任一其他参与对象接触，切割/相交时必须与主对象真正穿透，
+  // 孔对象必须穿透任一实体对象
+  if (checkOverlap) {
+    const isolated: number[] = [];
+    plan.steps.forEach(({ index, hole }) => {
+      const tool = brushes[index];
+      const overlaps = hole
+        ? solids.some(solid => brushesOverlap(solid, tool))
+        : op === 'UNION'
+          ? solids.some(other => other !== tool && brushesTouch(other, tool))
+          : brushesOverlap(base, tool);
+      if (!overlaps) isolated.push(index);
+      step();
+    });
+    if (isolated.length > 0) {
+      post({ type: 'isolated', indices: isolated });
+      return;
+    }
+  }
+
+  // 逐个累积运算结果
+  const evaluator = createBooleanEvaluator();
+  let result = base;
+  for (const { index, csg } of plan.steps) {
+    result = evaluator.evaluate(result, brushes[index], csg);
+    step();
+  }
+
+  const geometry = finalizeBooleanGeometry(result.geometry);
+  if (!geometry) {
+    post({ type: 'empty' });
+    return;
+  }
+  const data = serializeGeometry(geometry);
+  post({ type: 'result', geometry: data }, getTransferables(data));
+};
+
+const runClashCheck = (operands: SerializedGeometry[]) => {
+  const brushes = operands.map(toBrush);
+  const totalPairs = (brushes.length * (brushes.length - 1)) / 2;
+  let donePairs = 0;
+  const clashes: ClashResult[] = [];
+  for (let a = 0; a < brushes.length; a++) {
+    for (let b = a + 1; b < brushes.length; b++) {
+      const volume = computeOverlapVolume(brushes[a], brushes[b]);
+      if (volume > OVERLAP_EPSILON) clashes.push({ a, b, volume });
+      donePairs++;
+      post({ type: 'progress', progress: donePairs / totalPairs });
+    }
+  }
+  post({ type: 'clashes', clashes });
+};
+
+const runSlice = (operand: SerializedGeometry, planePoint: THREE.Vector3, planeNormal: THREE.Vector3) => {
+  const brush = toBrush(operand);
+  const normal = planeNormal.clone().normalize();
+
+  // 用一个足够大的方块表示法向量一侧的半空间：方块底面位于切割平面上
+  const bbox = new THREE.Box3().setFromObject(brush);
+  const bboxSize = bbox.getSize(new THREE.Vector3()).length();
+  const size = (bboxSize + bbox.distanceToPoint(planePoint)) * 4 + 1;
+  const halfSpace = new Brush(new THREE.BoxGeometry(size, size, size));
+  halfSpace.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal);
+  halfSpace.position.copy(planePoint).addScaledVector(normal, size / 2);
+  halfSpace.updateMatrixWorld();
+
+  const evaluator = createBooleanEvaluator();
+  const pieces: (SerializedGeometry | null)[] = [];
+  const transfer: Transferable[] = [];
+  [INTERSECTION, SUBTRACTION].forEach((csgOp, i) => {
+    const geometry = finalizeBooleanGeometry(evaluator.evaluate(brush, halfSpace, csgOp).geometry);
+    const data = geometry ? serializeGeometry(geometry) : null;
+    pieces.push(data);
+    if (data) transfer.push(...getTransferables(data));
+    post({ type: 'progress', progress: (i + 1) / 2 });
+  });
+  post({ type: 'slice', pieces }, transfer);
+};
+
+const runShell = (operand: SerializedGeometry, thickness: number, opening: ShellOpening) => {
+  const geometry = deserializeGeometry(operand);
+  if (operand.matrix) geometry.applyMatrix4(new THREE.Matrix4().fromArray(operand.matrix));
+  const result = createShellGeometry(geometry, thickness, opening);
+  post({ type: 'progress', progress: 1 });
+  if (!result) {
+    post({ type: 'empty' });
+    return;
+  }
+  const data = serializeGeometry(result);
+  post({ type: 'result', geometry: data }, getTransferables(data));
+};
+
+self.onmessage = (e: MessageEvent<BooleanWorkerRequest>) => {
+  const request = e.data;
+  try {
+    if (request.kind === 'boolean') {
+      runBoolean(request.op, request.operands, request.holes, request.checkOverlap);
+    } else if (request.kind === 'clash') {
+      runClashCheck(request.operands);
+    } else if (request.kind === 'shell') {
+      runShell(request.operands[0], request.thickness, request.opening);
+    } else {
+      runSlice(request.operands[0], new THREE.Vector3(...request.plane.position), new THREE.Vector3(...request.plane.normal));
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,110 @@
+// 文字对象可选的字体：全部随应用打包，离线也能使用
+// 默认字体直接打包进主程序，其余字体在首次使用时按需加载，加载完成后才能生成真实的文字几何体
+import { Font, FontData } from 'three/examples/jsm/loaders/FontLoader.js';
+import { unzipSync, strFromU8 } from 'three/examples/jsm/libs/fflate.module.js';
+import helvetikerRegular from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import notoSansScUrl from './fonts/NotoSansSC-Regular.typeface.json.zip?url';
+import mplusRoundedUrl from 'three/examples/fonts/MPLUSRounded1c/MPLUSRounded1c-Regular.typeface.json.zip?url';
+import { CADObject } from './types';
+
+// 字体条目：id保存在对象的params.font中，label显示在属性面板
+export interface FontEntry {
+  id: string;
+  label: string;
+  load: () => Promise<FontData>;
+}
+
+export const DEFAULT_FONT = 'helvetiker';
+
+// three自带的typeface字体为JSON模块，导入后的类型与FontData不完全一致，统一在这里转换
+const toFontData = (data: unknown): FontData => data as FontData;
+
+const jsonFont = (load: () => Promise<{ default: unknown }>) => async (): Promise<FontData> => toFontData((await load()).default);
+
+// 中日文字体体积较大，以zip压缩包作为独立的资源文件打包，首次使用时下载并在这里解压
+const zippedFont = (url: string) => async (): Promise<FontData> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch font archive: ${response.status}`);
+  const files = unzipSync(new Uint8Array(await response.arrayBuffer()));
+  const name = Object.keys(files).find(n => n.endsWith('.typeface.json') && !n.startsWith('__MACOSX'));
+  if (!name) throw new Error('Font archive does not contain a typeface file');
+  return toFontData(JSON.parse(strFromU8(files[name])));
+};
+
+export const TEXT_FONTS: FontEntry[] = [
+  { id: DEFAULT_FONT, label: 'Helvetiker', load: async () => toFontData(helvetikerRegular) },
+  { id: 'helvetiker_bold', label: 'Helvetiker 粗体', load: jsonFont(() => import('three/examples/fonts/helvetiker_bold.typeface.json')) },
+  { id: 'optimer', label: 'Optimer', load: jsonFont(() => import('three/examples/fonts/optimer_regular.typeface.json')) },
+  { id: 'optimer_bold', label: 'Optimer 粗体', load: jsonFont(() => import('three/examples/fonts/optimer_bold.typeface.json')) },
+  { id: 'gentilis', label: 'Gentilis', load: jsonFont(() => import('three/examples/fonts/gentilis_regular.typeface.json')) },
+  { id: 'droid_sans', label: 'Droid Sans', load: jsonFont(() => import('three/examples/fonts/droid/droid_sans_regular.typeface.json')) },
+  { id: 'droid_serif', label: 'Droid Serif', load: jsonFont(() => import('three/examples/fonts/droid/droid_serif_regular.typeface.json')) },
+  { id: 'droid_sans_mono', label: 'Droid Sans Mono', load: jsonFont(() => import('three/examples/fonts/droid/droid_sans_mono_regular.typeface.json')) },
+  // 由思源黑体（Noto Sans SC）转换而来，包含GB2312全部6763个汉字及中文标点
+  {
+    id: 'noto_sans_sc',
+    label: 'Noto Sans SC（简体中文）',
+    load: zippedFont(notoSansScUrl)
+  },
+  {
+    id: 'mplus_rounded',
+    label: 'M PLUS Rounded 1c（日文）',
+    load: zippedFont(mplusRoundedUrl)
+  }
+];
+
+// 对象使用的字体，未设置或字体不存在时使用默认字体
+export const getFontId = (params: CADObject['params']): string => {
+  return TEXT_FONTS.some(f => f.id === params.font) ? params.font! : DEFAULT_FONT;
+};
+
+const loadedFonts = new Map<string, Font>([[DEFAULT_FONT, new Font(toFontData(helvetikerRegular))]]);
+const pendingFonts = new Map<string, Promise<Font>>();
+
+// 同步获取已加载的字体，尚未加载时返回undefined
+export const getLoadedFont = (id: string): Font | undefined => loadedFonts.get(id);
+
+export const loadFont = (id: string): Promise<Font> => {
+  const loaded = loadedFonts.get(id);
+  if (loaded) return Promise.resolve(loaded);
+  let pending = pendingFonts.get(id);
+  if (!pending) {
+    const entry = TEXT_FONTS.find(f => f.id === id);
+    if (!entry) return Promise.reject(new Error(`Unknown font: ${id}`));
+    pending = entry.load().then(data => {
+      const font = new Font(data);
+      loadedFonts.set(id, font);
+      return font;
+    }).finally(() => {
+      pendingFonts.delete(id);
+    });
+    pendingFonts.set(id, pending);
+  }
+  return pending;
+};
+
+// 文字中当前字体没有字形的字符（字体未加载时返回空数组），这些字符会显示为"?"
+export const getMissingGlyphs = (params: CADObject['params']): string[] => {
+  const font = loadedFonts.get(getFontId(params));
+  if (!font) return [];
+  const chars = new Set([...(params.text || 'TEXT')].filter(c => c.trim() !== ''));
+  return [...chars].filter(c => !font.data.glyphs[c]);
+};
+
+// 收集对象（包括布尔运算节点的子对象）中文字使用的字体
+const collectFontIds = (objects: CADObject[], ids: Set<string> = new Set()): Set<string> => {
+  for (const obj of objects) {
+    if (obj.type === 'text') ids.add(getFontId(obj.params));
+    if (obj.children) collectFontIds(obj.children, ids);
+  }
+  return ids;
+};
+
+// 对象用到的字体是否都已加载（未加载时文字只能显示为占位方块）
+export const areFontsReady = (objects: CADObject[]): boolean => {
+  return [...collectFontIds(objects)].every(id => loadedFonts.has(id));
+};
+
+export const loadFontsFor = async (objects: CADObject[]): Promise<void> => {
+  await Promise.all([...collectFontIds(objects)].map(loadFont));
+};
@@ -0,0 +1,108 @@
+// 直齿圆柱齿轮的渐开线齿廓：标准齿顶高为1倍模数、齿根高为1.25倍模数，不考虑根切和变位
+import { CADObject, Point2 } from './types';
+
+export const MIN_GEAR_TEETH = 6;
+export const MAX_GEAR_TEETH = 200;
+export const MIN_PRESSURE_ANGLE = 10;
+export const MAX_PRESSURE_ANGLE = 35;
+
+// 每段齿面和齿顶/齿根圆弧的采样点数
+const FLANK_STEPS = 10;
+const LAND_STEPS = 4;
+// 齿顶最少保留的半角（弧度），避免两侧齿面交于一点
+const MIN_TIP_ANGLE = 0.002;
+
+export interface GearDimensions {
+  module: number;
+  teeth: number;
+  pressureAngle: number; // 弧度
+  pitchRadius: number;   // 分度圆半径
+  baseRadius: number;    // 基圆半径
+  outerRadius: number;   // 齿顶圆半径
+  rootRadius: number;    // 齿根圆半径
+  boreRadius: number;    // 轴孔半径（0表示无孔）
+}
+
+// 把参数限制在可生成有效齿廓的范围内：齿数取整，轴孔不超过齿根圆
+export const getGearDimensions = (params: CADObject['params']): GearDimensions => {
+  const module = Math.max(0.01, params.module || 1);
+  const teeth = Math.min(MAX_GEAR_TEETH, Math.max(MIN_GEAR_TEETH, Math.round(params.teeth || 20)));
+  const degrees = Math.min(MAX_PRESSURE_ANGLE, Math.max(MIN_PRESSURE_ANGLE, params.pressureAngle ?? 20));
+  const pressureAngle = degrees * Math.PI / 180;
+  const pitchRadius = module * teeth / 2;
+  const rootRadius = pitchRadius - 1.25 * module;
+  return {
+    module,
+    teeth,
+    pressureAngle,
+    pitchRadius,
+    baseRadius: pitchRadius * Math.cos(pressureAngle),
+    outerRadius: pitchRadius + module,
+    rootRadius,
+    boreRadius: Math.min(Math.max(0, (params.bore || 0) / 2), rootRadius * 0.9)
+  };
+};
+
+// 渐开线函数 inv(a) = tan(a) - a
+const involute = (angle: number) => Math.tan(angle) - angle;
+
+// 齿轮外轮廓（逆时针），第一个齿的中心位于+x方向
+export const createGearProfile = (dims: GearDimensions): Point2[] => {
+  const { teeth, pressureAngle, baseRadius, outerRadius, rootRadius } = dims;
+  const halfTooth = Math.PI / (2 * teeth); // 分度圆上齿厚对应的半角
+
+  // 一侧齿面在半径r处的极角（相对齿中心），半径越大越靠近齿中心
+  const flankAngle = (r: number) => {
+    const pressureAtR = Math.acos(Math.min(1, baseRadius / r));
+    return -halfTooth - involute(pressureAngle) + involute(pressureAtR);
+  };
+  const polar = (r: number, a: number): Point2 => [r * Math.cos(a), r * Math.sin(a)];
+
+  // 在[lo, hi]内二分查找齿面极角等于target的半径（齿面极角随半径单调增大）
+  const radiusAtAngle = (target: number, lo: number, hi: number) => {
+    for (let i = 0; i < 40; i++) {
+      const mid = (lo + hi) / 2;
+      if (flankAngle(mid) > target) hi = mid; else lo = mid;
+    }
+    return lo;
+  };
+
+  // 压力角大时相邻两齿的齿面在齿根圆以外就会相交，此时齿面从相交处附近开始，不再连接齿根圆
+  let flankStart = Math.max(baseRadius, rootRadius);
+  const minFlankAngle = -Math.PI / teeth + MIN_TIP_ANGLE;
+  const mergedAtRoot = flankAngle(flankStart) < minFlankAngle;
+  if (mergedAtRoot) flankStart = radiusAtAngle(minFlankAngle, flankStart, outerRadius);
+
+  // 齿数少或压力角大时两侧齿面在齿顶圆以内就会相交（齿顶变尖），此时把齿顶截在相交处附近
+  let tipRadius = outerRadius;
+  if (flankAngle(outerRadius) > -MIN_TIP_ANGLE) tipRadius = radiusAtAngle(-MIN_TIP_ANGLE, flankStart, outerRadius);
+
+  // 单个齿（从齿根开始的一侧齿面、齿顶、另一侧齿面）在齿中心角为0时的轮廓
+  // 齿根圆在基圆以内时，齿面下方以径向直线连到齿根圆
+  const flank: [number, number][] = []; // (半径, 极角)
+  if (rootRadius < baseRadius && !mergedAtRoot) flank.push([rootRadius, flankAngle(baseRadius)]);
+  for (let i = 0; i <= FLANK_STEPS; i++) {
+    const r = flankStart + (tipRadius - flankStart) * (i / FLANK_STEPS);
+    flank.push([r, flankAngle(r)]);
+  }
+  const tipAngle = flankAngle(tipRadius);
+  const land: [number, number][] = [];
+  for (let i = 1; i < LAND_STEPS; i++) {
+    land.push([tipRadius, tipAngle - 2 * tipAngle * (i / LAND_STEPS)]);
+  }
+  const tooth = [...flank, ...land, ...flank.slice().reverse().map(([r, a]) => [r, -a] as [number, number])];
+
+  // 相邻两个齿之间沿齿根圆连接（齿根处已相交时直接相连）
+  const rootSteps = mergedAtRoot ? 1 : LAND_STEPS;
+  const rootStart = tooth[tooth.length - 1][1];
+  const rootEnd = 2 * Math.PI / teeth + tooth[0][1];
+  const points: Point2[] = [];
+  for (let t = 0; t < teeth; t++) {
+    const center = (t / teeth) * Math.PI * 2;
+    for (const [r, a] of tooth) points.push(polar(r, center + a));
+    for (let i = 1; i < rootSteps; i++) {
+      points.push(polar(rootRadius, center + rootStart + (rootEnd - rootStart) * (i / rootSteps)));
+    }
+  }
+  return points;
+};
@@ -0,0 +1,719 @@
+// 统一的几何体工厂：场景渲染、布尔运算和STL导出都通过createGeometry获取几何体
+// 返回的几何体会被缓存并共享，调用方不得修改（需要修改时请先clone）
+import * as THREE from 'three';
+import { Brush, Evaluator, SUBTRACTION, ADDITION, INTERSECTION, CSGOperation } from 'three-bvh-csg';
+import { mergeVertices, mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
+import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
+import { ConvexGeometry } from 'three/examples/jsm/geometries/ConvexGeometry.js';
+import { CADObject, BooleanOpType, Point2, Point3, SweepPathType } from './types';
+import { areFontsReady, getFontId, getLoadedFont } from './fonts';
+import { getGearDimensions, createGearProfile } from './gear';
+import { getThreadDimensions, createThreadSolid, createThreadNut } from './thread';
+import { getPatternTransforms } from './pattern';
+
+// 布尔运算对应的CSG操作、结果命名符号和界面名称
+export const BOOLEAN_OPS: Record<BooleanOpType, { csg: CSGOperation, symbol: string, label: string }> = {
+    UNION: { csg: ADDITION, symbol: '∪', label: '合并' },
+    SUBTRACT: { csg: SUBTRACTION, symbol: '-', label: '切割' },
+    INTERSECT: { csg: INTERSECTION, symbol: '∩', label: '相交' }
+};
+
+// 布尔运算的求值步骤：先在实体对象之间依次进行op运算，再一次性减去所有孔对象（isHole）
+// holes与参与对象一一对应；全部为孔时按普通实体处理（结果仍是一个孔）
+export interface BooleanPlan {
+    base: number; // 主对象在参与对象中的下标
+    steps: { index: number; csg: CSGOperation; hole: boolean }[];
+}
+
+export const planBooleanSteps = (op: BooleanOpType, holes: boolean[]): BooleanPlan => {
+    const indices = holes.map((_, i) => i);
+    const solids = indices.filter(i => !holes[i]);
+    if (solids.length === 0) {
+        return { base: 0, steps: indices.slice(1).map(index => ({ index, csg: BOOLEAN_OPS[op].csg, hole: false })) };
+    }
+    return {
+        base: solids[0],
+        steps: [
+            ...solids.slice(1).map(index => ({ index, csg: BOOLEAN_OPS[op].csg, hole: false })),
+            ...indices.filter(i => holes[i]).map(index => ({ index, csg: SUBTRACTION, hole: true }))
+        ]
+    };
+};
+
+// 曲面细分段数：未设置时沿用默认值，并限制在合理范围内
+export const DEFAULT_SEGMENTS = 32;
+export const MIN_SEGMENTS = 3;
+export const MAX_SEGMENTS = 256;
+
+export const getSegments = (params: CADObject['params']): number => {
+    const value = Math.round(params.segments ?? DEFAULT_SEGMENTS);
+    if (!Number.isFinite(value)) return DEFAULT_SEGMENTS;
+    return Math.min(MAX_SEGMENTS, Math.max(MIN_SEGMENTS, value));
+};
+
+// 支持圆角/倒角参数的类型
+export const EDGE_TREATMENT_TYPES = ['cube', 'cylinder'];
+
+// 圆角半径和倒角距离的上限：立方体为最短边的一半，圆柱体为直径和高度中较小者的一半
+export const getMaxEdgeSize = (type: CADObject['type'], params: CADObject['params']): number => {
+    if (type === 'cube') return Math.min(params.width || 0, params.height || 0, params.depth || 0) / 2;
+    if (type === 'cylinder') return Math.min(params.radius || 0, (params.height || 0) / 2);
+    return 0;
+};
+
+// 镜像后仍能保持参数化的体素：形状关于某个局部坐标平面对称时，镜像等价于旋转后再沿该平面翻转，而翻转不改变形状
+// 返回对称平面的法向轴（0=x、1=y、2=z），没有这样的平面时返回null，镜像结果需要烘焙为网格（例如螺纹会变为左旋）
+export const getMirrorSymmetryAxis = (obj: CADObject): 0 | 1 | 2 | null => {
+    switch (obj.type) {
+        case 'cube':
+        case 'sphere':
+        case 'cylinder':
+        case 'ring':
+        case 'capsule':
+        case 'ellipsoid':
+        case 'tube':
+        case 'prism':
+        case 'half_cylinder':
+        case 'polygon_prism':
+        case 'star':
+        case 'gear':
+        case 'torus':
+            return 1;
+        case 'cone':
+        case 'hemisphere':
+        case 'pyramid':
+            return 0;
+        case 'wedge':
+            return 2;
+        case 'revolve':
+            return (obj.params.angle ?? 360) >= 360 ? 0 : null;
+        default:
+            return null;
+    }
+};
+
+// 返回变换后的几何体副本；变换包含反射（行列式为负）时同时翻转三角形的环绕方向，保证法线仍朝外
+export const transformGeometry = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4): THREE.BufferGeometry => {
+    const result = geometry.clone().applyMatrix4(matrix);
+    if (matrix.determinant() >= 0) return result;
+    if (result.index) {
+        const index = result.index.array;
+        for (let i = 0; i < index.length; i += 3) {
+            const tmp = index[i + 1];
+            index[i + 1] = index[i + 2];
+            index[i + 2] = tmp;
+        }
+        result.index.needsUpdate = true;
+    } else {
+        for (const attribute of Object.values(result.attributes)) {
+            const { array, itemSize } = attribute;
+            for (let i = 0; i < attribute.count; i += 3) {
+                for (let k = 0; k < itemSize; k++) {
+                    const a = (i + 1) * itemSize + k;
+                    const b = (i + 2) * itemSize + k;
+                    const tmp = array[a];
+                    array[a] = array[b];
+                    array[b] = tmp;
+                }
+            }
+            attribute.needsUpdate = true;
+        }
+    }
+    return result;
+};
+
+// 布尔运算节点的求值结果缓存：以children数组为键，移动节点本身不会触发重新求值，
+// 修改任一子对象时updateObjectInTree会生成新的children数组
+const booleanResultCache = new WeakMap<CADObject[], THREE.BufferGeometry>();
+
+// 记录在其他地方（例如Web Worker）已求得的布尔节点结果，避免再次在主线程求值
+export const cacheBooleanResult = (children: CADObject[], geometry: THREE.BufferGeometry) => {
+    booleanResultCache.set(children, geometry);
+};
+
+// 各布尔节点最近一次显示的结果（以节点id为键）：子对象修改后、新结果求得之前继续显示它
+// 超出上限时淘汰最久未显示的条目
+const LAST_BOOLEAN_RESULT_LIMIT = 64;
+const lastBooleanResults = new Map<string, THREE.BufferGeometry>();
+
+const rememberBooleanResult = (id: string, geometry: THREE.BufferGeometry) => {
+    lastBooleanResults.delete(id);
+    lastBooleanResults.set(id, geometry);
+    if (lastBooleanResults.size > LAST_BOOLEAN_RESULT_LIMIT) {
+        const oldest = lastBooleanResults.keys().next().value;
+        if (oldest !== undefined) lastBooleanResults.delete(oldest);
+    }
+};
+
+// 对象树中的布尔节点和组是否都已求值（已求值节点的子对象不再需要检查）
+// 未求值的节点由场景交给Web Worker求值（见csg_client.ts中的evaluateNodeResults）
+const areNodeResultsReady = (objects: CADObject[]): boolean => {
+    return objects.every(obj => {
+        if (!obj.children || obj.children.length === 0) return true;
+        if (obj.type === 'boolean') return booleanResultCache.has(obj.children);
+        if (obj.type === 'group') return groupResultCache.has(obj.children);
+        return areNodeResultsReady(obj.children);
+    });
+};
+
+// createGeometry返回的是否是对象的准确几何体：字体尚未加载、布尔节点或组尚未求值时只是占位几何体
+export const areGeometriesReady = (objects: CADObject[]): boolean => {
+    return areFontsReady(objects) && areNodeResultsReady(objects);
+};
+
+export const ensureAttributes = (geometry: THREE.BufferGeometry) => {
+    if (!geometry.attributes.position) return geometry;
+    if (!geometry.attributes.normal) {
+        geometry.computeVertexNormals();
+    }
+    if (!geometry.attributes.uv) {
+        const count = geometry.attributes.position.count;
+        const uvs = new Float32Array(count * 2);
+        for (let i = 0; i < uvs.length; i++) {
+            uvs[i] = 0;
+        }
+        geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    }
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+    return geometry;
+};
+
+// 生成三维文字几何体：水平居中、底部贴合原点
+// 字体尚未加载时返回不缓存的占位方块，字体加载完成后由场景重新获取
+const createTextGeometry = (params: CADObject['params']): THREE.BufferGeometry => {
+    const font = getLoadedFont(getFontId(params));
+    if (!font) {
+        const size = params.radius || 20;
+        const placeholder = new THREE.BoxGeometry(size, size, params.height || 5);
+        placeholder.translate(0, size / 2, 0);
+        return ensureAttributes(placeholder);
+    }
+    const text = params.text || 'TEXT';
+    const geom = new TextGeometry(text, {
+        font,
+        size: params.radius || 20,
+        depth: params.height || 5,
+        curveSegments: 6,
+        bevelEnabled: true,
+        bevelThickness: 1,
+        bevelSize: 0.5,
+        bevelOffset: 0,
+        bevelSegments: 3
+    });
+    geom.computeBoundingBox();
+    const box = geom.boundingBox;
+    // 只有空白字符时没有任何轮廓，包围盒为空
+    if (box && !box.isEmpty()) {
+        const center = box.getCenter(new THREE.Vector3());
+        geom.translate(-center.x, -box.min.y, -center.z);
+    }
+    return geom;
+};
+
+// 旋转体：profile为(半径, 高度)组成的闭合轮廓，绕局部y轴旋转angle度
+// 轮廓从局部+x方向开始扫掠；不足一周时在两端补上轮廓面，保证实体封闭以便参与布尔运算
+export const createRevolveGeometry = (profile: Point2[], angle: number, segments: number): THREE.BufferGeometry => {
+    const sweep = THREE.MathUtils.degToRad(Math.min(360, Math.max(1, angle)));
+    const isFull = sweep >= Math.PI * 2 - 1e-6;
+    const contour = profile.map(([r, h]) => new THREE.Vector2(Math.max(0, r), h));
+    // 轮廓按逆时针排列时车削面的法线朝外
+    if (THREE.ShapeUtils.isClockWise(contour)) contour.reverse();
+
+    const phiStart = Math.PI / 2;
+    const steps = isFull ? segments : Math.max(1, Math.ceil(segments * sweep / (Math.PI * 2)));
+    const lathe = new THREE.LatheGeometry([...contour, contour[0]], steps, phiStart, isFull ? Math.PI * 2 : sweep);
+    lathe.deleteAttribute('uv');
+    if (isFull) return lathe;
+
+    // 端面：把轮廓三角化后放到起止角度处，朝向扫掠方向之外
+    const side = lathe.toNonIndexed();
+    const triangles = THREE.ShapeUtils.triangulateShape(contour, []);
+    const createCap = (phi: number, outward: THREE.Vector3) => {
+        const toPoint = (p: THREE.Vector2) => new THREE.Vector3(p.x * Math.sin(phi), p.y, p.x * Math.cos(phi));
+        const positions: number[] = [];
+        for (const [a, b, c] of triangles) {
+            let [pa, pb, pc] = [toPoint(contour[a]), toPoint(contour[b]), toPoint(contour[c])];
+            const normal = new THREE.Vector3().subVectors(pb, pa).cross(new THREE.Vector3().subVectors(pc, pa));
+            if (normal.dot(outward) < 0) [pb, pc] = [pc, pb];
+            positions.push(...pa.toArray(), ...pb.toArray(), ...pc.toArray());
+        }
+        const cap = new THREE.BufferGeometry();
+        cap.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        cap.setAttribute('normal', new THREE.Float32BufferAttribute(
+            new Array(positions.length / 3).fill(outward.toArray()).flat(), 3
+        ));
+        return cap;
+    };
+    const tangent = (phi: number) => new THREE.Vector3(Math.cos(phi), 0, -Math.sin(phi));
+    const startCap = createCap(phiStart, tangent(phiStart).negate());
+    const endCap = createCap(phiStart + sweep, tangent(phiStart + sweep));
+    return mergeGeometries([side, startCap, endCap]) || side;
+};
+
+// 分段车削：每段轮廓单独车削后合并，使段与段之间的折角处法线保持锐利
+// 轮廓按(半径, 高度)逆时针排列时法线朝外；长度为零的段（例如圆角达到上限时）直接跳过
+const createCreasedLathe = (pieces: THREE.Vector2[][], segments: number): THREE.BufferGeometry | null => {
+    const lathes = pieces
+        .filter(p => p[0].distanceTo(p[p.length - 1]) > 1e-9)
+        .map(p => new THREE.LatheGeometry(p, segments));
+    return mergeGeometries(lathes);
+};
+
+// 把xy平面上的多边形（可带孔）沿y轴拉伸成高为height、包围盒居中的棱柱（侧面法线锐利）
+const createPolygonPrism = (points: THREE.Vector2[], height: number, holes: THREE.Vector2[][] = []): THREE.BufferGeometry => {
+    const shape = new THREE.Shape(points);
+    shape.holes = holes.map(hole => new THREE.Path(hole));
+    const geom = new THREE.ExtrudeGeometry(shape, { depth: height, bevelEnabled: false });
+    geom.translate(0, 0, -height / 2);
+    geom.rotateX(-Math.PI / 2);
+    return geom;
+};
+
+// 正多边形（或星形）的顶点，第一个顶点位于+x方向
+const regularPolygonPoints = (count: number, radius: number, innerRadius?: number): THREE.Vector2[] => {
+    const total = innerRadius !== undefined ? count * 2 : count;
+    return Array.from({ length: total }, (_, i) => {
+        const r = innerRadius !== undefined && i % 2 === 1 ? innerRadius : radius;
+        const a = (i / total) * Math.PI * 2;
+        return new THREE.Vector2(r * Math.cos(a), r * Math.sin(a));
+    });
+};
+
+// 倒角立方体：每条棱切去等腰直角三角形，即把每个角替换为三个点后求凸包
+const createChamferedBox = (width: number, height: number, depth: number, chamfer: number): THREE.BufferGeometry => {
+    const [x, y, z] = [width / 2, height / 2, depth / 2];
+    const points: THREE.Vector3[] = [];
+    for (const sx of [-1, 1]) {
+        for (const sy of [-1, 1]) {
+            for (const sz of [-1, 1]) {
+                points.push(
+                    new THREE.Vector3(sx * x, sy * (y - chamfer), sz * (z - chamfer)),
+                    new THREE.Vector3(sx * (x - chamfer), sy * y, sz * (z - chamfer)),
+                    new THREE.Vector3(sx * (x - chamfer), sy * (y - chamfer), sz * z)
+                );
+            }
+        }
+    }
+    return new ConvexGeometry(points);
+};
+
+// 带圆角或倒角的圆柱体：上下底面、边缘和侧面几段轮廓分段车削
+const createEdgedCylinder = (radius: number, height: number, fillet: number, chamfer: number, segments: number): THREE.BufferGeometry => {
+    const h = height / 2;
+    const edge = fillet > 0 ? fillet : chamfer;
+    // 圆角弧线：以(radius - fillet, ±(h - fillet))为圆心的四分之一圆
+    const arc = (cy: number, from: number) => {
+        const steps = Math.max(2, Math.round(segments / 8));
+        return Array.from({ length: steps + 1 }, (_, i) => {
+            const a = from + (i / steps) * (Math.PI / 2);
+            return new THREE.Vector2(radius - fillet + fillet * Math.cos(a), cy + fillet * Math.sin(a));
+        });
+    };
+    const pieces: THREE.Vector2[][] = [
+        [new THREE.Vector2(0, -h), new THREE.Vector2(radius - edge, -h)],
+        fillet > 0 ? arc(-h + fillet, -Math.PI / 2) : [new THREE.Vector2(radius - edge, -h), new THREE.Vector2(radius, -h + edge)],
+        [new THREE.Vector2(radius, -h + edge), new THREE.Vector2(radius, h - edge)],
+        fillet > 0 ? arc(h - fillet, 0) : [new THREE.Vector2(radius, h - edge), new THREE.Vector2(radius - edge, h)],
+        [new THREE.Vector2(radius - edge, h), new THREE.Vector2(0, h)]
+    ];
+    return createCreasedLathe(pieces, segments) || new THREE.CylinderGeometry(radius, radius, height, segments);
+};
+
+// 螺纹对象：外螺纹杆缩小让位量；螺纹孔是与外螺纹同形、放大让位量的实体，用作切割工具；
+// 螺母为六角柱减去螺纹孔，孔比螺母长两个螺距（牙型相位不变）以保证两端完全贯通
+const createThreadGeometry = (params: CADObject['params'], segments: number): THREE.BufferGeometry => {
+    const dims = getThreadDimensions(params);
+    const length = params.height || 0;
+    const threadType = params.threadType || 'rod';
+    if (threadType === 'rod') return createThreadSolid(dims, length, -dims.clearance, segments);
+    if (threadType === 'hole') return createThreadSolid(dims, length, dims.clearance, segments);
+
+    // 对边宽度至少比螺纹大径多留1mm壁厚
+    const acrossFlats = Math.max(params.width || 0, (dims.radius + dims.clearance) * 2 + 2);
+    return createThreadNut(dims, length, acrossFlats, segments);
+};
+
+// 样条路径每两个控制点之间的采样份数
+const SWEEP_SPLINE_DIVISIONS = 12;
+
+// 扫掠路径的采样点：折线直接使用控制点，样条经过所有控制点平滑插值；重合的相邻点会被去掉
+export const getSweepPathPoints = (path: Point3[], pathType: SweepPathType = 'polyline'): THREE.Vector3[] => {
+    let points = path.map(p => new THREE.Vector3(...p));
+    if (pathType === 'spline' && points.length > 2) {
+        points = new THREE.CatmullRomCurve3(points, false, 'centripetal').getPoints((points.length - 1) * SWEEP_SPLINE_DIVISIONS);
+    }
+    return points.filter((p, i) => i === 0 || p.distanceToSquared(points[i - 1]) > 1e-12);
+};
+
+// 扫掠体：截面沿路径移动形成的实体，两端封口
+// 截面沿路径平行移动（不产生扭转），折线拐角处斜接，保证各段截面大小不变
+const createSweepGeometry = (params: CADObject['params'], segments: number): THREE.BufferGeometry => {
+    const points = getSweepPathPoints(params.path || [], params.pathType);
+    if (points.length < 2) return new THREE.BoxGeometry(1, 1, 1);
+
+    // 截面轮廓（逆时针）及其外法线：圆形截面法线连续，矩形截面每条边使用各自的法线
+    const isCircle = params.section !== 'rectangle';
+    let section: THREE.Vector2[];
+    if (isCircle) {
+        const r = params.radius || 5;
+        section = Array.from({ length: segments }, (_, i) => {
+            const a = (i / segments) * Math.PI * 2;
+            return new THREE.Vector2(r * Math.cos(a), r * Math.sin(a));
+        });
+    } else {
+        const w = (params.width || 10) / 2;
+        const h = (params.height || 5) / 2;
+        section = [new THREE.Vector2(-w, -h), new THREE.Vector2(w, -h), new THREE.Vector2(w, h), new THREE.Vector2(-w, h)];
+    }
+    const count = section.length;
+    const edgeNormal = (k: number) => {
+        const e = new THREE.Vector2().subVectors(section[(k + 1) % count], section[k]);
+        return new THREE.Vector2(e.y, -e.x).normalize();
+    };
+
+    // 每段路径的方向和截面坐标系(N, B)，相邻两段之间按最小旋转传递，避免截面扭转
+    const dirs = points.slice(1).map((p, i) => new THREE.Vector3().subVectors(p, points[i]).normalize());
+    const frames: { n: THREE.Vector3, b: THREE.Vector3 }[] = [];
+    dirs.forEach((d, j) => {
+        let n: THREE.Vector3;
+        if (j === 0) {
+            const ref = Math.abs(d.y) > 0.99 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+            n = new THREE.Vector3().crossVectors(ref, d).normalize();
+        } else {
+            n = frames[j - 1].n.clone().applyQuaternion(new THREE.Quaternion().setFromUnitVectors(dirs[j - 1], d)).normalize();
+        }
+        frames.push({ n, b: new THREE.Vector3().crossVectors(d, n) });
+    });
+    const toFrame = (j: number, v: THREE.Vector2) => frames[j].n.clone().multiplyScalar(v.x).addScaledVector(frames[j].b, v.y);
+
+    // 每个路径点处的截面环：中间点把截面沿路径方向投影到拐角的平分面上（斜接）
+    const rings = points.map((p, i) => {
+        const j = Math.min(i, dirs.length - 1);
+        const miter = i > 0 && i < dirs.length ? new THREE.Vector3().addVectors(dirs[i - 1], dirs[i]) : null;
+        const useMiter = miter && miter.lengthSq() > 1e-8;
+        if (useMiter) miter!.normalize();
+        return section.map(v => {
+            const offset = toFrame(j, v);
+            const point = p.clone().add(offset);
+            if (useMiter) point.addScaledVector(dirs[j], -offset.dot(miter!) / dirs[j].dot(miter!));
+            return point;
+        });
+    });
+
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const pushVertex = (p: THREE.Vector3, n: THREE.Vector3) => {
+        positions.push(p.x, p.y, p.z);
+        normals.push(n.x, n.y, n.z);
+    };
+    // 侧面
+    dirs.forEach((_, j) => {
+        const [r0, r1] = [rings[j], rings[j + 1]];
+        for (let k = 0; k < count; k++) {
+            const k1 = (k + 1) % count;
+            const quad = [r0[k], r0[k1], r1[k1], r0[k], r1[k1], r1[k]];
+            const indices = [k, k1, k1, k, k1, k];
+            const flat = isCircle ? null : toFrame(j, edgeNormal(k));
+            quad.forEach((p, q) => pushVertex(p, flat || toFrame(j, section[indices[q]].clone().normalize())));
+        }
+    });
+    // 两端封口（截面为凸多边形，按扇形三角化）
+    const addCap = (ring: THREE.Vector3[], normal: THREE.Vector3, reverse: boolean) => {
+        for (let k = 1; k < count - 1; k++) {
+            const tri = reverse ? [ring[0], ring[k + 1], ring[k]] : [ring[0], ring[k], ring[k + 1]];
+            tri.forEach(p => pushVertex(p, normal));
+        }
+    };
+    addCap(rings[0], dirs[0].clone().negate(), true);
+    addCap(rings[rings.length - 1], dirs[dirs.length - 1], false);
+
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geom.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    return geom;
+};
+
+// 参数化几何体缓存：类型和参数完全相同的对象共享同一个几何体，超出上限时淘汰最早的条目
+const PRIMITIVE_CACHE_LIMIT = 256;
+const primitiveCache = new Map<string, THREE.BufferGeometry>();
+
+// 阵列节点的结果缓存：以children数组为键，同时记录阵列参数，修改实例数量或间距时重新生成
+const patternResultCache = new WeakMap<CADObject[], { params: CADObject['params']; geometry: THREE.BufferGeometry }>();
+
+// 复制对象树时沿用已求得的节点结果：子对象的几何体和相对变换都未改变，无需重新求值
+export const shareCachedResult = (source: CADObject[], copy: CADObject[]) => {
+    const booleanResult = booleanResultCache.get(source);
+    if (booleanResult) booleanResultCache.set(copy, booleanResult);
+    const patternResult = patternResultCache.get(source);
+    if (patternResult) patternResultCache.set(copy, patternResult);
+    const groupResult = groupResultCache.get(source);
+    if (groupResult) groupResultCache.set(copy, groupResult);
+};
+
+// 把源对象（阵列节点的唯一子对象）的几何体按各实例变换复制后合并，结果位于阵列节点的坐标系中
+const createPatternGeometry = (obj: CADObject): THREE.BufferGeometry => {
+    const children = obj.children!;
+    const cached = patternResultCache.get(children);
+    if (cached && cached.params === obj.params) return cached.geometry;
+
+    const source = children[0];
+    const sourceGeometry = createGeometry(source);
+    const sourceMatrix = new THREE.Matrix4().compose(
+        new THREE.Vector3(...source.position),
+        new THREE.Quaternion().setFromEuler(new THREE.Euler(...source.rotation)),
+        new THREE.Vector3(...source.scale)
+    );
+    const copies = getPatternTransforms(obj.params).map(transform =>
+        sourceGeometry.clone().applyMatrix4(transform.multiply(sourceMatrix))
+    );
+    const geometry = ensureAttributes(mergeGeometries(copies) || sourceGeometry.clone());
+    // 源对象中的文字字体尚未加载或布尔节点尚未求值时结果只是近似的，不缓存
+    if (areGeometriesReady(children)) patternResultCache.set(children, { params: obj.params, geometry });
+    return geometry;
+};
+
+// 组的求值结果缓存：以children数组为键，结果在Web Worker中求得（见csg_client.ts中的evaluateNodeResults）
+const groupResultCache = new WeakMap<CADObject[], THREE.BufferGeometry>();
+// 组尚未求值时使用的占位几何体缓存
+const groupPreviewCache = new WeakMap<CADObject[], THREE.BufferGeometry>();
+
+// 记录已求得的组结果：实体成员合并后再减去组内的孔，结果位于组的坐标系中
+export const cacheGroupResult = (children: CADObject[], geometry: THREE.BufferGeometry) => {
+    groupResultCache.set(children, geometry);
+};
+
+// 组作为一个整体参与布尔运算、切片、抽壳等操作时使用的几何体（场景中各成员单独渲染，不使用它）
+// 尚未求值时返回各实体成员变换后直接拼接的占位几何体（包围盒与结果一致），全部成员都是孔时拼接所有成员
+const createGroupGeometry = (obj: CADObject): THREE.BufferGeometry => {
+    const children = obj.children!;
+    const cached = groupResultCache.get(children) || groupPreviewCache.get(children);
+    if (cached) return cached;
+
+    const solids = children.filter(child => !child.isHole);
+    const members = solids.length > 0 ? solids : children;
+    const parts = members.map(child => {
+        const part = createGeometry(child).clone().applyMatrix4(new THREE.Matrix4().compose(
+            new THREE.Vector3(...child.position),
+            new THREE.Quaternion().setFromEuler(new THREE.Euler(...child.rotation)),
+            new THREE.Vector3(...child.scale)
+        ));
+        // 各成员的属性可能不同（例如导入网格没有uv），只保留合并所需的位置和法线
+        Object.keys(part.attributes).forEach(name => {
+            if (name !== 'position' && name !== 'normal') part.deleteAttribute(name);
+        });
+        return part.index ? part.toNonIndexed() : part;
+    });
+    const geometry = ensureAttributes(mergeGeometries(parts) || new THREE.BufferGeometry());
+    if (areGeometriesReady(children)) groupPreviewCache.set(children, geometry);
+    return geometry;
+};
+
+// 导入网格的解析结果缓存：以geometryData对象为键，同一份数据只解析一次
+const customGeometryCache = new WeakMap<object, THREE.BufferGeometry>();
+
+export const createGeometry = (obj: CADObject): THREE.BufferGeometry => {
+    if (obj.type === 'boolean' && obj.children && obj.children.length > 0) {
+        const cached = booleanResultCache.get(obj.children);
+        if (cached) {
+            rememberBooleanResult(obj.id, cached);
+            return cached;
+        }
+        // 尚未求值（修改子对象、撤销/重做或打开项目之后）：求值在Web Worker中进行，
+        // 在此之前显示该节点上一次的结果，没有时显示主对象
+        return lastBooleanResults.get(obj.id) || createGeometry(obj.children[0]);
+    }
+
+    if (obj.type === 'pattern' && obj.children && obj.children.length > 0) {
+        return createPatternGeometry(obj);
+    }
+
+    if (obj.type === 'group' && obj.children && obj.children.length > 0) {
+        return createGroupGeometry(obj);
+    }
+
+    if (obj.type === 'custom' && obj.geometryData) {
+        const cached = customGeometryCache.get(obj.geometryData);
+        if (cached) return cached;
+        const loader = new THREE.BufferGeometryLoader();
+        const geom = ensureAttributes(loader.parse(obj.geometryData));
+        customGeometryCache.set(obj.geometryData, geom);
+        return geom;
+    }
+
+    if (obj.type === 'text' && !areFontsReady([obj])) {
+        return createTextGeometry(obj.params);
+    }
+
+    const key = `${obj.type}:${JSON.stringify(obj.params)}`;
+    const cached = primitiveCache.get(key);
+    if (cached) return cached;
+    const geom = buildPrimitiveGeometry(obj);
+    if (primitiveCache.size >= PRIMITIVE_CACHE_LIMIT) {
+        // 被淘汰的几何体可能仍被场景引用，因此只移出缓存而不dispose
+        const oldest = primitiveCache.keys().next().value;
+        if (oldest !== undefined) primitiveCache.delete(oldest);
+    }
+    primitiveCache.set(key, geom);
+    return geom;
+};
+
+// 根据类型和参数构建几何体（不经过缓存）
+const buildPrimitiveGeometry = (obj: CADObject): THREE.BufferGeometry => {
+    let geom: THREE.BufferGeometry;
+    const { params } = obj;
+    const segments = getSegments(params);
+
+    // 圆角优先于倒角，两者都限制在允许的最大值以内（例如尺寸改小之后）
+    const maxEdge = getMaxEdgeSize(obj.type, params);
+    const fillet = Math.min(params.filletRadius || 0, maxEdge);
+    const chamfer = Math.min(params.chamfer || 0, maxEdge);
+
+    if (obj.type === 'cube' && fillet > 0) {
+        geom = new RoundedBoxGeometry(params.width, params.height, params.depth, Math.max(2, Math.round(segments / 8)), fillet);
+    } else if (obj.type === 'cube' && chamfer > 0) {
+        geom = createChamferedBox(params.width || 0, params.height || 0, params.depth || 0, chamfer);
+    } else if (obj.type === 'cube') {
+        geom = new THREE.BoxGeometry(params.width, params.height, params.depth);
+    } else if (obj.type === 'sphere') {
+        geom = new THREE.SphereGeometry(params.radius, segments, segments);
+    } else if (obj.type === 'cylinder' && (fillet > 0 || chamfer > 0)) {
+        geom = createEdgedCylinder(params.radius || 0, params.height || 0, fillet, chamfer, segments);
+    } else if (obj.type === 'cylinder') {
+        geom = new THREE.CylinderGeometry(params.radius, params.radius, params.height, segments);
+    } else if (obj.type === 'cone') {
+        geom = new THREE.ConeGeometry(params.radius, params.height, segments);
+    } else if (obj.type === 'prism') {
+        geom = new THREE.CylinderGeometry(params.radius, params.radius, params.height, 3);
+    } else if (obj.type === 'hemisphere') {
+        const points = [];
+        points.push(new THREE.Vector2(0, 0));
+        for (let i = 0; i <= segments; i++) {
+            const phi = (i / segments) * (Math.PI / 2); // 0 to 90 degrees
+            points.push(new THREE.Vector2(params.radius * Math.cos(phi), params.radius * Math.sin(phi)));
+        }
+        points.push(new THREE.Vector2(0, params.radius));
+        points.push(new THREE.Vector2(0, 0));
+        geom = new THREE.LatheGeometry(points, segments);
+        geom.center();
+    } else if (obj.type === 'half_cylinder') {
+        const shape = new THREE.Shape();
+        shape.absarc(0, 0, params.radius, 0, Math.PI, false);
+        shape.lineTo(params.radius, 0); 
+        const extrudeSettings = { depth: params.height, bevelEnabled: false, curveSegments: segments };
+        geom = new THREE.ExtrudeGeometry(shape, extrudeSettings);
+        geom.center(); 
+        geom.rotateX(-Math.PI / 2); 
+    } else if (obj.type === 'ring') {
+        const shape = new THREE.Shape();
+        shape.absarc(0, 0, params.radius, 0, Math.PI * 2, false);
+
+        const holePath = new THREE.Path();
+        holePath.absarc(0, 0, params.tube, 0, Math.PI * 2, true);
+        shape.holes.push(holePath);
+
+        geom = new THREE.ExtrudeGeometry(shape, {
+            depth: params.height,
+            bevelEnabled: false,
+            curveSegments: segments
+        });
+        geom.center();
+        geom.rotateX(-Math.PI / 2);
+    } else if (obj.type === 'torus') {
+        // 圆环体：截面圆绕y轴旋转，圆弧角度不足一周时两端封口；截面半径不超过环半径
+        const major = params.radius || 0;
+        const minor = Math.min(Math.max(0, params.tube || 0), major);
+        const section: Point2[] = Array.from({ length: segments }, (_, i) => {
+            const a = (i / segments) * Math.PI * 2;
+            return [major + minor * Math.cos(a), minor * Math.sin(a)];
+        });
+        geom = createRevolveGeometry(section, params.angle ?? 360, segments);
+    } else if (obj.type === 'pyramid') {
+        // 矩形底面的四棱锥，包围盒居中
+        const [x, y, z] = [(params.width || 0) / 2, (params.height || 0) / 2, (params.depth || 0) / 2];
+        geom = new ConvexGeometry([
+            new THREE.Vector3(-x, -y, -z), new THREE.Vector3(x, -y, -z),
+            new THREE.Vector3(x, -y, z), new THREE.Vector3(-x, -y, z),
+            new THREE.Vector3(0, y, 0)
+        ]);
+    } else if (obj.type === 'wedge') {
+        // 楔形（斜坡）：高的一侧位于-x，沿x方向降到底面
+        const [x, y, z] = [(params.width || 0) / 2, (params.height || 0) / 2, (params.depth || 0) / 2];
+        geom = new ConvexGeometry([
+            new THREE.Vector3(-x, -y, -z), new THREE.Vector3(x, -y, -z), new THREE.Vector3(-x, y, -z),
+            new THREE.Vector3(-x, -y, z), new THREE.Vector3(x, -y, z), new THREE.Vector3(-x, y, z)
+        ]);
+    } else if (obj.type === 'capsule') {
+        // height为包括两端半球在内的总高度
+        const radius = params.radius || 0;
+        const length = Math.max(0, (params.height || 0) - radius * 2);
+        geom = new THREE.CapsuleGeometry(radius, length, Math.max(2, Math.round(segments / 4)), segments);
+    } else if (obj.type === 'ellipsoid') {
+        geom = new THREE.SphereGeometry(1, segments, segments);
+        geom.scale((params.width || 0) / 2, (params.height || 0) / 2, (params.depth || 0) / 2);
+    } else if (obj.type === 'polygon_prism') {
+        const sides = Math.max(3, Math.round(params.sides || 6));
+        geom = createPolygonPrism(regularPolygonPoints(sides, params.radius || 0), params.height || 0);
+    } else if (obj.type === 'star') {
+        const points = Math.max(3, Math.round(params.sides || 5));
+        const radius = params.radius || 0;
+        const inner = Math.min(Math.max(0, params.innerRadius ?? radius / 2), radius);
+        geom = createPolygonPrism(regularPolygonPoints(points, radius, inner), params.height || 0);
+    } else if (obj.type === 'gear') {
+        const dims = getGearDimensions(params);
+        const outline = createGearProfile(dims).map(([x, y]) => new THREE.Vector2(x, y));
+        const holes = dims.boreRadius > 0 ? [regularPolygonPoints(segments, dims.boreRadius).reverse()] : [];
+        geom = createPolygonPrism(outline, params.height || 0, holes);
+    } else if (obj.type === 'thread') {
+        geom = createThreadGeometry(params, segments);
+    } else if (obj.type === 'tube') {
+        // 壁厚不超过外径，等于外径时即为实心圆柱
+        const radius = params.radius || 0;
+        const inner = radius - Math.min(Math.max(0, params.thickness || 0), radius);
+        const h = (params.height || 0) / 2;
+        geom = createCreasedLathe([
+            [new THREE.Vector2(inner, -h), new THREE.Vector2(radius, -h)],
+            [new THREE.Vector2(radius, -h), new THREE.Vector2(radius, h)],
+            [new THREE.Vector2(radius, h), new THREE.Vector2(inner, h)],
+            [new THREE.Vector2(inner, h), new THREE.Vector2(inner, -h)]
+        ], segments) || new THREE.BoxGeometry(1, 1, 1);
+    } else if (obj.type === 'revolve' && params.profile && params.profile.length >= 3) {
+        geom = createRevolveGeometry(params.profile, params.angle ?? 360, segments);
+    } else if (obj.type === 'sweep' && params.path && params.path.length >= 2) {
+        geom = createSweepGeometry(params, segments);
+    } else if (obj.type === 'text') {
+        geom = createTextGeometry(params);
+    } else {
+        geom = new THREE.BoxGeometry(1, 1, 1);
+    }
+    return ensureAttributes(geom);
+};
+
+// 为对象创建带有其变换的CSG笔刷
+export const createBrush = (obj: CADObject) => {
+    const brush = new Brush(createGeometry(obj));
+    brush.position.set(...obj.position);
+    brush.rotation.set(...obj.rotation);
+    brush.scale.set(...obj.scale);
+    brush.updateMatrixWorld();
+    return brush;
+};
+
+// 创建布尔运算使用的求值器（仅保留位置和法线属性）
+export const createBooleanEvaluator = () => {
+    const evaluator = new Evaluator();
+    evaluator.attributes = ['position', 'normal'];
+    evaluator.useGroups = false;
+    return evaluator;
+};
+
+// 整理布尔运算输出的几何体：合并顶点并重新计算法线，结果为空时返回null
+export const finalizeBooleanGeometry = (geometry: THREE.BufferGeometry): THREE.BufferGeometry | null => {
+    if (!geometry.attributes.position || geometry.attributes.position.count === 0) {
+        return null;
+    }
+    const merged = mergeVertices(geometry, 1e-4);
+    merged.computeVertexNormals();
+    return ensureAttributes(merged);
+};
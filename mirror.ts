@@ -0,0 +1,39 @@
+// 镜像：关于世界坐标平面或工作平面的反射变换
+import * as THREE from 'three';
+import { CADObject, Point3 } from './types';
+import { getMirrorSymmetryAxis } from './geometry';
+
+// 镜像平面：YZ/XZ/XY为世界坐标平面（法向分别为x/y/z轴），workplane为当前工作平面
+export type MirrorPlane = 'YZ' | 'XZ' | 'XY' | 'workplane';
+
+export const WORLD_MIRROR_NORMALS: Record<Exclude<MirrorPlane, 'workplane'>, Point3> = {
+  YZ: [1, 0, 0],
+  XZ: [0, 1, 0],
+  XY: [0, 0, 1]
+};
+
+// 镜像命令的设置：throughSelection为true时世界坐标平面经过选中对象的中心而不是原点，copy为true时保留原对象
+export interface MirrorSettings {
+  plane: MirrorPlane;
+  throughSelection: boolean;
+  copy: boolean;
+}
+
+// 关于经过point、法向为normal的平面的反射矩阵：X' = X - 2n(n·(X - p))
+export const getMirrorMatrix = (point: Point3, normal: Point3): THREE.Matrix4 => {
+  const n = new THREE.Vector3(...normal).normalize();
+  const d = n.dot(new THREE.Vector3(...point));
+  const { x, y, z } = n;
+  return new THREE.Matrix4().set(
+    1 - 2 * x * x, -2 * x * y, -2 * x * z, 2 * d * x,
+    -2 * x * y, 1 - 2 * y * y, -2 * y * z, 2 * d * y,
+    -2 * x * z, -2 * y * z, 1 - 2 * z * z, 2 * d * z,
+    0, 0, 0, 1
+  );
+};
+
+// 镜像后需要烘焙为网格的对象：布尔运算节点、阵列节点和组保留层级，递归到其中没有对称平面的子对象
+export const getMirrorBakedLeaves = (objects: CADObject[]): CADObject[] => objects.flatMap(obj => {
+  if (obj.children) return getMirrorBakedLeaves(obj.children);
+  return getMirrorSymmetryAxis(obj) === null ? [obj] : [];
+});
@@ -0,0 +1,62 @@
+// 阵列：线性阵列沿间距向量依次平移，环形阵列绕经过原点的旋转轴依次旋转
+import * as THREE from 'three';
+import { CADObject, PatternType, Point3 } from './types';
+
+export const MIN_PATTERN_COUNT = 2;
+export const MAX_PATTERN_COUNT = 100;
+
+export const DEFAULT_PATTERN_SPACING: Point3 = [20, 0, 0];
+export const DEFAULT_PATTERN_AXIS: Point3 = [0, 1, 0];
+
+// 阵列命令的设置：center为环形阵列旋转中心（世界坐标），linked为true时生成随源对象更新的阵列节点
+export interface PatternSettings {
+  patternType: PatternType;
+  count: number;
+  spacing: Point3;
+  axis: Point3;
+  center: Point3;
+  angle: number;
+  linked: boolean;
+}
+
+export const getPatternCount = (params: CADObject['params']): number => {
+  const count = Math.round(params.count ?? MIN_PATTERN_COUNT);
+  if (!Number.isFinite(count)) return MIN_PATTERN_COUNT;
+  return Math.min(MAX_PATTERN_COUNT, Math.max(MIN_PATTERN_COUNT, count));
+};
+
+// 各实例相对于源对象的变换（第一个为单位矩阵，即源对象本身）
+// 环形阵列绕原点旋转；总角度为360°时实例均匀分布一周，否则首尾实例分别位于0°和总角度处
+export const getPatternTransforms = (params: CADObject['params']): THREE.Matrix4[] => {
+  const count = getPatternCount(params);
+  const transforms: THREE.Matrix4[] = [];
+
+  if (params.patternType === 'circular') {
+    const axis = new THREE.Vector3(...(params.axis || DEFAULT_PATTERN_AXIS));
+    if (axis.lengthSq() < 1e-12) axis.set(...DEFAULT_PATTERN_AXIS);
+    axis.normalize();
+    const total = Math.min(360, Math.max(0, params.angle ?? 360)) * Math.PI / 180;
+    const step = total >= Math.PI * 2 - 1e-9 ? total / count : total / (count - 1);
+    for (let i = 0; i < count; i++) {
+      transforms.push(new THREE.Matrix4().makeRotationAxis(axis, step * i));
+    }
+    return transforms;
+  }
+
+  const spacing = new THREE.Vector3(...(params.spacing || DEFAULT_PATTERN_SPACING));
+  for (let i = 0; i < count; i++) {
+    transforms.push(new THREE.Matrix4().makeTranslation(spacing.x * i, spacing.y * i, spacing.z * i));
+  }
+  return transforms;
+};
+
+// 阵列节点沿局部坐标轴翻转（flip的分量为±1）后的参数：线性阵列的间距随之翻转；
+// 环形阵列翻转后旋转方向相反，等价于绕翻转后的反向轴旋转
+export const mirrorPatternParams = (params: CADObject['params'], flip: THREE.Vector3): CADObject['params'] => {
+  if (params.patternType === 'circular') {
+    const axis = new THREE.Vector3(...(params.axis || DEFAULT_PATTERN_AXIS)).multiply(flip).negate();
+    return { ...params, axis: axis.toArray() as Point3 };
+  }
+  const spacing = new THREE.Vector3(...(params.spacing || DEFAULT_PATTERN_SPACING)).multiply(flip);
+  return { ...params, spacing: spacing.toArray() as Point3 };
+};
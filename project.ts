@@ -0,0 +1,53 @@
+// 项目文件(.sl3d)的读写：保存时写入当前版本号，读取旧版本文件时按顺序迁移对象数据
+import { CADObject } from './types';
+
+export const PROJECT_VERSION = '1.1';
+
+export interface ProjectData {
+  version: string;
+  timestamp: string;
+  objects: CADObject[];
+}
+
+// 各版本引入的数据迁移：读取低于该版本的文件时对每个对象（包括布尔运算子对象）执行
+const MIGRATIONS: { version: string; migrate: (obj: CADObject) => CADObject }[] = [
+  // 1.1：'torus'改为真正的圆环体，原来的空心圆柱改名为'ring'
+  { version: '1.1', migrate: obj => (obj.type === ('torus' as CADObject['type']) ? { ...obj, type: 'ring' } : obj) }
+];
+
+// 按数字逐段比较版本号，例如"1.10" > "1.9"
+const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const migrateObject = (obj: CADObject, migrate: (obj: CADObject) => CADObject): CADObject => {
+  const migrated = migrate(obj);
+  return migrated.children
+    ? { ...migrated, children: migrated.children.map(child => migrateObject(child, migrate)) }
+    : migrated;
+};
+
+export const createProjectData = (objects: CADObject[]): ProjectData => ({
+  version: PROJECT_VERSION,
+  timestamp: new Date().toISOString(),
+  objects
+});
+
+// 解析项目文件内容并迁移到当前版本，格式不正确时抛出异常；没有版本号的文件视为1.0
+export const parseProjectData = (text: string): CADObject[] => {
+  const data = JSON.parse(text);
+  let objects: CADObject[] = Array.isArray(data?.objects) ? data.objects : [];
+  const version = typeof data?.version === 'string' ? data.version : '1.0';
+  for (const { version: target, migrate } of MIGRATIONS) {
+    if (compareVersions(version, target) < 0) {
+      objects = objects.map(obj => migrateObject(obj, migrate));
+    }
+  }
+  return objects;
+};
@@ -0,0 +1,139 @@
+// 抽壳：把封闭实体的表面向内偏移壁厚得到内腔，再从实体中减去；开口方向上的面改为向外偏移，使内腔穿出该面
+import * as THREE from 'three';
+import { Brush, SUBTRACTION } from 'three-bvh-csg';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { Point3 } from './types';
+import { createBooleanEvaluator, finalizeBooleanGeometry } from './geometry';
+
+// 开口方向（世界坐标系），none表示完全封闭的空心体
+export type ShellOpening = 'none' | '+x' | '-x' | '+y' | '-y' | '+z' | '-z';
+
+export const SHELL_OPENING_DIRECTIONS: Record<Exclude<ShellOpening, 'none'>, Point3> = {
+  '+x': [1, 0, 0],
+  '-x': [-1, 0, 0],
+  '+y': [0, 1, 0],
+  '-y': [0, -1, 0],
+  '+z': [0, 0, 1],
+  '-z': [0, 0, -1]
+};
+
+// 抽壳命令的设置
+export interface ShellSettings {
+  thickness: number;
+  opening: ShellOpening;
+}
+
+// 法线与开口方向夹角小于30°的面被打开
+const OPEN_FACE_COS = Math.cos(Math.PI / 6);
+// 顶点周围法线夹角小于30°的面视为同一个光滑曲面
+const SMOOTH_FACE_COS = Math.cos(Math.PI / 6);
+// 尖角处的偏移量上限（壁厚的倍数），避免锥尖等处的内腔顶点飞出
+const MAX_OFFSET_RATIO = 4;
+
+interface FacePlane {
+  normal: THREE.Vector3; // 同一曲面上各面法线之和，求解前归一化
+  offset: number;        // 该面需要向内移动的距离（开口面为负，即向外）
+}
+
+// 求顶点位移v，使其满足各相邻面 n·v = offset（顶点向内移动v后各面恰好偏移相应距离）
+const solveVertexOffset = (planes: FacePlane[]): THREE.Vector3 => {
+  const [p1, p2] = planes;
+  if (planes.length === 1) return p1.normal.clone().multiplyScalar(p1.offset);
+
+  const solvePair = (a: FacePlane, b: FacePlane) => {
+    const c = a.normal.dot(b.normal);
+    const det = 1 - c * c;
+    if (det < 1e-6) return a.normal.clone().multiplyScalar((a.offset + b.offset) / 2);
+    const ka = (a.offset - c * b.offset) / det;
+    const kb = (b.offset - c * a.offset) / det;
+    return a.normal.clone().multiplyScalar(ka).addScaledVector(b.normal, kb);
+  };
+  if (planes.length === 2) return solvePair(p1, p2);
+
+  // 三个及以上的面：最小二乘 (Σ n nᵀ) v = Σ offset·n；法线共面（奇异）时退回到夹角最大的两个面
+  const elements = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  const rhs = new THREE.Vector3();
+  for (const { normal: n, offset } of planes) {
+    const v = [n.x, n.y, n.z];
+    for (let r = 0; r < 3; r++) for (let c = 0; c < 3; c++) elements[r * 3 + c] += v[r] * v[c];
+    rhs.addScaledVector(n, offset);
+  }
+  const matrix = new THREE.Matrix3().set(...(elements as [number, number, number, number, number, number, number, number, number]));
+  if (Math.abs(matrix.determinant()) > 1e-6) {
+    return rhs.applyMatrix3(matrix.invert());
+  }
+  let best: [FacePlane, FacePlane] = [p1, p2];
+  let minDot = Infinity;
+  for (let i = 0; i < planes.length; i++) {
+    for (let j = i + 1; j < planes.length; j++) {
+      const dot = planes[i].normal.dot(planes[j].normal);
+      if (dot < minDot) {
+        minDot = dot;
+        best = [planes[i], planes[j]];
+      }
+    }
+  }
+  return solvePair(...best);
+};
+
+// 生成内腔：geometry须为封闭网格（世界坐标），opening为开口方向（单位向量）或null
+export const createShellCavity = (geometry: THREE.BufferGeometry, thickness: number, opening: THREE.Vector3 | null): THREE.BufferGeometry => {
+  // 只按位置焊接顶点，得到面与顶点的连接关系
+  const source = new THREE.BufferGeometry();
+  source.setAttribute('position', geometry.attributes.position.clone());
+  if (geometry.index) source.setIndex(geometry.index.clone());
+  const welded = mergeVertices(source, 1e-4);
+  const position = welded.attributes.position;
+  const index = welded.index!;
+
+  const vertexPlanes: FacePlane[][] = Array.from({ length: position.count }, () => []);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  for (let i = 0; i < index.count; i += 3) {
+    const ids = [index.getX(i), index.getX(i + 1), index.getX(i + 2)];
+    a.fromBufferAttribute(position, ids[0]);
+    b.fromBufferAttribute(position, ids[1]);
+    c.fromBufferAttribute(position, ids[2]);
+    const normal = c.sub(b).cross(a.sub(b));
+    if (normal.lengthSq() < 1e-20) continue; // 退化三角形
+    normal.normalize();
+    const offset = opening && normal.dot(opening) > OPEN_FACE_COS ? -thickness : thickness;
+    for (const id of ids) {
+      // 同一光滑曲面上的面合并为一个平面，避免细分网格让求解变得病态
+      const plane = vertexPlanes[id].find(p =>
+        p.offset === offset && p.normal.clone().normalize().dot(normal) > SMOOTH_FACE_COS
+      );
+      if (plane) plane.normal.add(normal);
+      else vertexPlanes[id].push({ normal: normal.clone(), offset });
+    }
+  }
+
+  const cavity = welded.clone();
+  const cavityPosition = cavity.attributes.position;
+  const p = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    const planes = vertexPlanes[i];
+    if (planes.length === 0) continue;
+    planes.forEach(plane => plane.normal.normalize());
+    const offset = solveVertexOffset(planes);
+    const maxOffset = thickness * MAX_OFFSET_RATIO;
+    if (offset.length() > maxOffset) offset.setLength(maxOffset);
+    p.fromBufferAttribute(position, i).sub(offset);
+    cavityPosition.setXYZ(i, p.x, p.y, p.z);
+  }
+  cavityPosition.needsUpdate = true;
+  cavity.computeVertexNormals();
+  return cavity;
+};
+
+// 抽壳：返回世界坐标系中的空心实体，壁厚过大导致实体被完全挖空时返回null
+export const createShellGeometry = (geometry: THREE.BufferGeometry, thickness: number, opening: ShellOpening): THREE.BufferGeometry | null => {
+  const direction = opening === 'none' ? null : new THREE.Vector3(...SHELL_OPENING_DIRECTIONS[opening]);
+  const solid = new Brush(geometry);
+  const cavity = new Brush(createShellCavity(geometry, thickness, direction));
+  solid.updateMatrixWorld();
+  cavity.updateMatrixWorld();
+  const result = createBooleanEvaluator().evaluate(solid, cavity, SUBTRACTION);
+  return finalizeBooleanGeometry(result.geometry);
+};
@@ -0,0 +1,283 @@
+// 草图：在工作平面上绘制二维轮廓，坐标为工作平面局部坐标系中的(x, y)，z轴为平面法向
+import * as THREE from 'three';
+import { DEFAULT_SEGMENTS, ensureAttributes } from './geometry';
+import { SketchState, SketchTool, Point2, RevolveAxis } from './types';
+
+export const SKETCH_TOOLS: Record<SketchTool, { label: string; icon: string; hint: string }> = {
+  polyline: { label: '折线', icon: 'fa-solid fa-draw-polygon', hint: '依次点击顶点，点击起点闭合轮廓' },
+  arc: { label: '圆弧', icon: 'fa-solid fa-bezier-curve', hint: '从上一个顶点出发，依次点击圆弧经过的点和终点' },
+  rectangle: { label: '矩形', icon: 'fa-regular fa-square', hint: '点击两个对角点' },
+  circle: { label: '圆', icon: 'fa-regular fa-circle', hint: '点击圆心，再点击圆上一点' }
+};
+
+// 点击位置吸附到的网格间距
+export const SKETCH_SNAP = 1;
+// 点击位置与起点的距离小于该值时视为闭合轮廓
+export const SKETCH_CLOSE_TOLERANCE = 3;
+
+export const createSketchState = (): SketchState => ({
+  tool: 'polyline',
+  profiles: [],
+  draft: [],
+  arcMid: null,
+  extrudeHeight: 20,
+  revolveAxis: 'y',
+  revolveAngle: 360
+});
+
+export const snapSketchPoint = (x: number, y: number): Point2 => [
+  Math.round(x / SKETCH_SNAP) * SKETCH_SNAP,
+  Math.round(y / SKETCH_SNAP) * SKETCH_SNAP
+];
+
+const distance = (a: Point2, b: Point2) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+// 工作平面的朝向：局部z轴为平面法向，与场景中显示的工作平面网格一致
+export const getWorkPlaneQuaternion = (normal: [number, number, number]): THREE.Quaternion => {
+  const n = new THREE.Vector3(...normal).normalize();
+  // 法向接近竖直时改用z轴作为参考上方向，避免奇异
+  const up = Math.abs(n.y) > 0.99 ? new THREE.Vector3(0, 0, 1) : new THREE.Vector3(0, 1, 0);
+  const matrix = new THREE.Matrix4().lookAt(n, new THREE.Vector3(0, 0, 0), up);
+  return new THREE.Quaternion().setFromRotationMatrix(matrix);
+};
+
+// 圆周上均匀分布的点（逆时针）
+export const circlePoints = (center: Point2, radius: number, segments: number = DEFAULT_SEGMENTS): Point2[] => {
+  const points: Point2[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    points.push([center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]);
+  }
+  return points;
+};
+
+export const rectanglePoints = (a: Point2, b: Point2): Point2[] => [
+  [a[0], a[1]], [b[0], a[1]], [b[0], b[1]], [a[0], b[1]]
+];
+
+// 经过start、mid、end三点的圆弧（不含起点），三点共线时返回null
+export const arcThroughPoints = (start: Point2, mid: Point2, end: Point2, segments: number = DEFAULT_SEGMENTS): Point2[] | null => {
+  const [ax, ay] = start;
+  const [bx, by] = mid;
+  const [cx, cy] = end;
+  const d = 2 * (ax * (by - cy) + bx * (cy - ay) + cx * (ay - by));
+  if (Math.abs(d) < 1e-9) return null;
+  const ux = ((ax * ax + ay * ay) * (by - cy) + (bx * bx + by * by) * (cy - ay) + (cx * cx + cy * cy) * (ay - by)) / d;
+  const uy = ((ax * ax + ay * ay) * (cx - bx) + (bx * bx + by * by) * (ax - cx) + (cx * cx + cy * cy) * (bx - ax)) / d;
+  const radius = Math.hypot(ax - ux, ay - uy);
+
+  const a0 = Math.atan2(ay - uy, ax - ux);
+  const normalize = (angle: number) => ((angle - a0) % (Math.PI * 2) + Math.PI * 2) % (Math.PI * 2);
+  const midAngle = normalize(Math.atan2(by - uy, bx - ux));
+  let sweep = normalize(Math.atan2(cy - uy, cx - ux));
+  // 经过点不在逆时针方向的弧段上时，改为顺时针绕行
+  if (midAngle > sweep) sweep -= Math.PI * 2;
+
+  const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (Math.PI * 2) * segments));
+  const points: Point2[] = [];
+  for (let i = 1; i < steps; i++) {
+    const angle = a0 + sweep * (i / steps);
+    points.push([ux + radius * Math.cos(angle), uy + radius * Math.sin(angle)]);
+  }
+  points.push([cx, cy]);
+  return points;
+};
+
+// 多边形有向面积（逆时针为正）
+export const polygonArea = (points: Point2[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+};
+
+const pointInPolygon = (point: Point2, polygon: Point2[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > point[1]) !== (yj > point[1]) && point[0] < (xj - xi) * (point[1] - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// 两条线段是否在端点以外的位置相交
+const segmentsCross = (p1: Point2, p2: Point2, q1: Point2, q2: Point2): boolean => {
+  const cross = (o: Point2, a: Point2, b: Point2) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+const edges = (points: Point2[]): [Point2, Point2][] => points.map((p, i) => [p, points[(i + 1) % points.length]]);
+
+export const isSelfIntersecting = (points: Point2[]): boolean => {
+  const list = edges(points);
+  for (let i = 0; i < list.length; i++) {
+    for (let j = i + 2; j < list.length; j++) {
+      if (i === 0 && j === list.length - 1) continue; // 首尾两条边相邻
+      if (segmentsCross(list[i][0], list[i][1], list[j][0], list[j][1])) return true;
+    }
+  }
+  return false;
+};
+
+// 两个轮廓是否相交：边相互穿过，或者一个轮廓的顶点有的在另一个轮廓内、有的在外（穿过顶点的情况）
+export const profilesIntersect = (a: Point2[], b: Point2[]): boolean => {
+  const straddles = (points: Point2[], polygon: Point2[]) => {
+    const inside = points.map(p => pointInPolygon(p, polygon));
+    return inside.some(v => v) && inside.some(v => !v);
+  };
+  if (straddles(a, b) || straddles(b, a)) return true;
+  return edges(a).some(([p1, p2]) => edges(b).some(([q1, q2]) => segmentsCross(p1, p2, q1, q2)));
+};
+
+// 检查新的闭合轮廓能否加入草图，返回错误提示；可以加入时返回null
+export const validateProfile = (profile: Point2[], existing: Point2[][]): string | null => {
+  if (profile.length < 3 || Math.abs(polygonArea(profile)) < 1e-6) return '轮廓面积为零，无法闭合。';
+  if (isSelfIntersecting(profile)) return '轮廓自相交，请重新绘制。';
+  if (existing.some(p => profilesIntersect(p, profile))) return '轮廓与已有轮廓相交，请重新绘制。';
+  return null;
+};
+
+// 处理草图中的一次点击，返回新的草图状态以及错误提示（若有）
+export const addSketchPoint = (sketch: SketchState, point: Point2): { sketch: SketchState; error?: string } => {
+  const { tool, draft } = sketch;
+  const closeProfile = (profile: Point2[]) => {
+    const error = validateProfile(profile, sketch.profiles);
+    if (error) return { sketch: { ...sketch, draft: [], arcMid: null }, error };
+    return { sketch: { ...sketch, profiles: [...sketch.profiles, profile], draft: [], arcMid: null } };
+  };
+
+  if (tool === 'rectangle' || tool === 'circle') {
+    if (draft.length === 0) return { sketch: { ...sketch, draft: [point] } };
+    const [start] = draft;
+    if (tool === 'rectangle') {
+      if (start[0] === point[0] || start[1] === point[1]) return { sketch };
+      return closeProfile(rectanglePoints(start, point));
+    }
+    const radius = distance(start, point);
+    if (radius < 1e-6) return { sketch };
+    return closeProfile(circlePoints(start, radius));
+  }
+
+  if (draft.length === 0) return { sketch: { ...sketch, draft: [point] } };
+  const last = draft[draft.length - 1];
+  const closes = draft.length >= 2 && distance(point, draft[0]) <= SKETCH_CLOSE_TOLERANCE;
+
+  if (tool === 'arc') {
+    if (!sketch.arcMid) {
+      if (distance(point, last) < 1e-6) return { sketch };
+      return { sketch: { ...sketch, arcMid: point } };
+    }
+    const end = closes ? draft[0] : point;
+    const arc = arcThroughPoints(last, sketch.arcMid, end);
+    if (!arc) return { sketch: { ...sketch, arcMid: null }, error: '三点共线，无法生成圆弧。' };
+    if (closes) return closeProfile([...draft, ...arc.slice(0, -1)]);
+    return { sketch: { ...sketch, draft: [...draft, ...arc], arcMid: null } };
+  }
+
+  // 折线
+  if (closes && draft.length >= 3) return closeProfile(draft);
+  if (distance(point, last) < 1e-6) return { sketch };
+  return { sketch: { ...sketch, draft: [...draft, point] } };
+};
+
+// 手动闭合当前正在绘制的折线/圆弧链
+export const closeSketchDraft = (sketch: SketchState): { sketch: SketchState; error?: string } => {
+  if (sketch.draft.length < 3) return { sketch, error: '至少需要三个顶点才能闭合轮廓。' };
+  const error = validateProfile(sketch.draft, sketch.profiles);
+  if (error) return { sketch, error };
+  return { sketch: { ...sketch, profiles: [...sketch.profiles, sketch.draft], draft: [], arcMid: null } };
+};
+
+// 撤销：优先撤销正在绘制的点，其次删除最后一个闭合轮廓
+export const undoSketchStep = (sketch: SketchState): SketchState => {
+  if (sketch.arcMid) return { ...sketch, arcMid: null };
+  if (sketch.draft.length > 0) return { ...sketch, draft: sketch.draft.slice(0, -1) };
+  return { ...sketch, profiles: sketch.profiles.slice(0, -1) };
+};
+
+// 按嵌套层级把闭合轮廓组织成带孔的形状：偶数层为外轮廓，奇数层为其外层轮廓上的孔
+export const buildSketchShapes = (profiles: Point2[][]): THREE.Shape[] => {
+  const depth = profiles.map((profile, i) =>
+    profiles.filter((other, j) => j !== i && pointInPolygon(profile[0], other)).length
+  );
+  const toVectors = (points: Point2[], ccw: boolean) => {
+    const ordered = (polygonArea(points) > 0) === ccw ? points : [...points].reverse();
+    return ordered.map(([x, y]) => new THREE.Vector2(x, y));
+  };
+
+  const shapes: THREE.Shape[] = [];
+  profiles.forEach((profile, i) => {
+    if (depth[i] % 2 !== 0) return;
+    const shape = new THREE.Shape(toVectors(profile, true));
+    profiles.forEach((hole, j) => {
+      // 孔：恰好比外轮廓深一层且位于外轮廓内部
+      if (depth[j] === depth[i] + 1 && pointInPolygon(hole[0], profile)) {
+        shape.holes.push(new THREE.Path(toVectors(hole, false)));
+      }
+    });
+    shapes.push(shape);
+  });
+  return shapes;
+};
+
+// 把草图轮廓沿平面法向拉伸，height为负时向法向反方向拉伸；几何体位于工作平面局部坐标系
+export const createSketchExtrudeGeometry = (profiles: Point2[][], height: number): THREE.BufferGeometry => {
+  const geometry = new THREE.ExtrudeGeometry(buildSketchShapes(profiles), {
+    depth: Math.abs(height),
+    bevelEnabled: false,
+    curveSegments: DEFAULT_SEGMENTS
+  });
+  if (height < 0) geometry.translate(0, 0, height);
+  return ensureAttributes(geometry);
+};
+
+// 旋转轮廓：草图中唯一的闭合轮廓，或者一条未闭合的半轮廓折线（两端自动沿旋转轴封闭）
+// 轮廓转换为(到轴的距离, 沿轴高度)，side表示轮廓位于轴的哪一侧；无法旋转时返回错误提示
+export const getRevolveProfile = (sketch: SketchState): { profile: Point2[]; side: 1 | -1 } | { error: string } => {
+  let points: Point2[];
+  let closed: boolean;
+  if (sketch.profiles.length === 1 && sketch.draft.length < 2) {
+    points = sketch.profiles[0];
+    closed = true;
+  } else if (sketch.profiles.length === 0 && sketch.draft.length >= 2) {
+    points = sketch.draft;
+    closed = false;
+  } else {
+    return { error: '请只绘制一个闭合轮廓，或一条以旋转轴为边界的半轮廓折线。' };
+  }
+
+  // 绕y轴旋转时x坐标为半径，绕x轴旋转时y坐标为半径
+  const radiusIndex = sketch.revolveAxis === 'y' ? 0 : 1;
+  const side = points.some(p => p[radiusIndex] > 1e-9) ? 1 : -1;
+  if (points.some(p => p[radiusIndex] * side < -1e-9)) {
+    return { error: '轮廓必须位于旋转轴的同一侧。' };
+  }
+  const profile: Point2[] = points.map(p => [p[radiusIndex] * side, p[1 - radiusIndex]]);
+  if (!closed) {
+    const first = profile[0];
+    const last = profile[profile.length - 1];
+    if (last[0] > 1e-9) profile.push([0, last[1]]);
+    if (first[0] > 1e-9) profile.unshift([0, first[1]]);
+  }
+  if (profile.length < 3 || Math.abs(polygonArea(profile)) < 1e-6) return { error: '轮廓面积为零，无法旋转。' };
+  if (isSelfIntersecting(profile)) return { error: '轮廓自相交，无法旋转。' };
+  return { profile, side };
+};
+
+// 旋转体对象的朝向：局部y轴为旋转轴，局部+x轴指向轮廓所在的一侧
+export const getRevolveQuaternion = (normal: [number, number, number], axis: RevolveAxis, side: 1 | -1): THREE.Quaternion => {
+  const axisDir = axis === 'y' ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+  const sideDir = (axis === 'y' ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0)).multiplyScalar(side);
+  const basis = new THREE.Matrix4().makeBasis(sideDir, axisDir, new THREE.Vector3().crossVectors(sideDir, axisDir));
+  return getWorkPlaneQuaternion(normal).multiply(new THREE.Quaternion().setFromRotationMatrix(basis));
+};
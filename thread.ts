@@ -0,0 +1,173 @@
+// 螺纹：按ISO公制普通螺纹的基本牙型（60°牙型角）沿右旋螺旋线生成螺纹面
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { CADObject } from './types';
+
+// ISO公制粗牙螺纹规格：公称直径、螺距、螺母对边宽度
+export const METRIC_THREADS: { name: string; diameter: number; pitch: number; nutWidth: number }[] = [
+  { name: 'M2', diameter: 2, pitch: 0.4, nutWidth: 4 },
+  { name: 'M2.5', diameter: 2.5, pitch: 0.45, nutWidth: 5 },
+  { name: 'M3', diameter: 3, pitch: 0.5, nutWidth: 5.5 },
+  { name: 'M4', diameter: 4, pitch: 0.7, nutWidth: 7 },
+  { name: 'M5', diameter: 5, pitch: 0.8, nutWidth: 8 },
+  { name: 'M6', diameter: 6, pitch: 1, nutWidth: 10 },
+  { name: 'M8', diameter: 8, pitch: 1.25, nutWidth: 13 },
+  { name: 'M10', diameter: 10, pitch: 1.5, nutWidth: 16 },
+  { name: 'M12', diameter: 12, pitch: 1.75, nutWidth: 18 }
+];
+
+// 每个螺距内沿轴向的采样行数（越多牙型越准确）
+const ROWS_PER_PITCH = 16;
+
+export interface ThreadDimensions {
+  radius: number;    // 公称半径（大径的一半）
+  pitch: number;     // 螺距
+  depth: number;     // 牙型高度（5H/8，H为原始三角形高度）
+  clearance: number; // 单边让位：外螺纹缩小、内螺纹放大的量
+}
+
+// 把参数限制在能生成有效螺纹的范围内，牙深不超过半径的一半
+export const getThreadDimensions = (params: CADObject['params']): ThreadDimensions => {
+  const radius = Math.max(0.1, (params.diameter || 8) / 2);
+  const pitch = Math.max(0.1, params.pitch || 1.25);
+  const depth = Math.min((5 / 8) * (Math.sqrt(3) / 2) * pitch, radius / 2);
+  return { radius, pitch, depth, clearance: Math.max(0, params.tolerance || 0) / 2 };
+};
+
+// 一个螺距内的牙型：u为螺距内的相对位置(0~1)，返回到大径的径向距离
+// 牙顶平台P/8、牙底平台P/4，两侧为60°牙侧
+const profileOffset = (u: number, depth: number): number => {
+  const crest = 1 / 8;
+  const flank = 5 / 16;
+  if (u < crest) return 0;
+  if (u < crest + flank) return depth * (u - crest) / flank;
+  if (u < crest + flank + 1 / 4) return depth;
+  return depth * (1 - (u - crest - flank - 1 / 4) / flank);
+};
+
+// 沿y轴、长度为length、中心位于原点的螺纹面采样点：segments列 × (rows + 1)行，按行排列
+// offset为整个牙型的径向偏移，外螺纹取负值、内螺纹取正值
+// 螺旋线相位和采样行都以对象中心为基准，因此中心重合的螺杆和螺纹孔采样的是同一个牙型，只相差径向偏移
+const sampleThreadSurface = (dims: ThreadDimensions, length: number, offset: number, segments: number) => {
+  const { radius, pitch, depth } = dims;
+  const half = length / 2;
+  const step = pitch / ROWS_PER_PITCH;
+  const ys = [-half];
+  for (let k = Math.floor(-half / step) + 1; k * step < half - 1e-6; k++) {
+    if (k * step > -half + 1e-6) ys.push(k * step);
+  }
+  ys.push(half);
+  const rows = ys.length - 1;
+  const positions: number[] = [];
+  for (const y of ys) {
+    for (let i = 0; i < segments; i++) {
+      const theta = (i / segments) * Math.PI * 2;
+      const phase = y / pitch - i / segments;
+      const r = radius + offset - profileOffset(phase - Math.floor(phase), depth);
+      positions.push(r * Math.sin(theta), y, r * Math.cos(theta));
+    }
+  }
+  return { positions, rows };
+};
+
+// 螺纹侧面的网格，列方向首尾相接；inward为true时三角形朝向轴心（螺母的内孔表面）
+const createThreadSide = (positions: number[], rows: number, segments: number, inward: boolean): THREE.BufferGeometry => {
+  const indices: number[] = [];
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < segments; i++) {
+      const a = j * segments + i;
+      const b = j * segments + (i + 1) % segments;
+      const c = a + segments;
+      const d = b + segments;
+      indices.push(...(inward ? [a, d, b, a, c, d] : [a, b, d, a, d, c]));
+    }
+  }
+  const side = new THREE.BufferGeometry();
+  side.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  side.setIndex(indices);
+  side.computeVertexNormals();
+  return side;
+};
+
+// 沿y轴、长度为length、包围盒居中的右旋螺纹实体（两端平面封口）
+// offset为整个牙型的径向偏移，外螺纹取负值、内螺纹（螺纹孔的切割体）取正值
+export const createThreadSolid = (dims: ThreadDimensions, length: number, offset: number, segments: number): THREE.BufferGeometry => {
+  const { positions, rows } = sampleThreadSurface(dims, length, offset, segments);
+  const half = length / 2;
+  const side = createThreadSide(positions, rows, segments, false);
+
+  // 两端封口：以轴心为中心的扇形，使用单独的顶点以保持法线锐利
+  const createCap = (row: number, up: boolean) => {
+    const y = up ? half : -half;
+    const capPositions = [0, y, 0, ...positions.slice(row * segments * 3, (row + 1) * segments * 3)];
+    const capIndices: number[] = [];
+    for (let i = 0; i < segments; i++) {
+      const [a, b] = [1 + i, 1 + (i + 1) % segments];
+      capIndices.push(...(up ? [0, a, b] : [0, b, a]));
+    }
+    const cap = new THREE.BufferGeometry();
+    cap.setAttribute('position', new THREE.Float32BufferAttribute(capPositions, 3));
+    cap.setAttribute('normal', new THREE.Float32BufferAttribute(
+      new Array(segments + 1).fill([0, up ? 1 : -1, 0]).flat(), 3
+    ));
+    cap.setIndex(capIndices);
+    return cap;
+  };
+  return mergeGeometries([side, createCap(0, false), createCap(rows, true)]) || side;
+};
+
+// 六角螺母：外侧为对边宽度acrossFlats的六棱柱（第一个角位于+x方向），内孔表面直接使用内螺纹面，
+// 两端是六边形与螺纹截面之间的环形端面，因此不需要布尔运算
+export const createThreadNut = (dims: ThreadDimensions, length: number, acrossFlats: number, segments: number): THREE.BufferGeometry => {
+  const { positions, rows } = sampleThreadSurface(dims, length, dims.clearance, segments);
+  const half = length / 2;
+  const bore = createThreadSide(positions, rows, segments, true);
+
+  // 六边形的角（x, z）
+  const cornerRadius = acrossFlats / Math.sqrt(3);
+  const corners = Array.from({ length: 6 }, (_, i) => {
+    const a = (i / 6) * Math.PI * 2;
+    return new THREE.Vector2(cornerRadius * Math.cos(a), -cornerRadius * Math.sin(a));
+  });
+
+  // 外侧的六个平面，每个面使用单独的顶点以保持法线锐利
+  const wallPositions: number[] = [];
+  const wallNormals: number[] = [];
+  const wallIndices: number[] = [];
+  corners.forEach((p, i) => {
+    const q = corners[(i + 1) % 6];
+    const normal = new THREE.Vector2((p.x + q.x) / 2, (p.y + q.y) / 2).normalize();
+    const base = i * 4;
+    wallPositions.push(p.x, -half, p.y, q.x, -half, q.y, q.x, half, q.y, p.x, half, p.y);
+    for (let k = 0; k < 4; k++) wallNormals.push(normal.x, 0, normal.y);
+    // 三角形顶点顺序使法线朝外
+    wallIndices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  });
+  const wall = new THREE.BufferGeometry();
+  wall.setAttribute('position', new THREE.Float32BufferAttribute(wallPositions, 3));
+  wall.setAttribute('normal', new THREE.Float32BufferAttribute(wallNormals, 3));
+  wall.setIndex(wallIndices);
+
+  // 两端的环形端面：外轮廓为六边形，孔为螺纹面在该端的截面
+  const createCap = (row: number, up: boolean) => {
+    const y = up ? half : -half;
+    const section = Array.from({ length: segments }, (_, i) =>
+      new THREE.Vector2(positions[(row * segments + i) * 3], positions[(row * segments + i) * 3 + 2])
+    );
+    const points = [...corners, ...section];
+    const capIndices: number[] = [];
+    THREE.ShapeUtils.triangulateShape(corners, [section]).forEach(([a, b, c]) => {
+      // 按三角形在xz平面上的实际绕向决定顶点顺序，使法线朝向端面外侧
+      const cross = (points[b].x - points[a].x) * (points[c].y - points[a].y) - (points[b].y - points[a].y) * (points[c].x - points[a].x);
+      capIndices.push(...((cross < 0) === up ? [a, b, c] : [a, c, b]));
+    });
+    const cap = new THREE.BufferGeometry();
+    cap.setAttribute('position', new THREE.Float32BufferAttribute(points.flatMap(p => [p.x, y, p.y]), 3));
+    cap.setAttribute('normal', new THREE.Float32BufferAttribute(
+      new Array(points.length).fill([0, up ? 1 : -1, 0]).flat(), 3
+    ));
+    cap.setIndex(capIndices);
+    return cap;
+  };
+  return mergeGeometries([bore, wall, createCap(0, false), createCap(rows, true)]) || bore;
+};
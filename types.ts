@@ -1,5 +1,27 @@
 // 定义形状类型联合类型，包括各种基本几何体和自定义类型
-export type ShapeType = 'cube' | 'sphere' | 'cylinder' | 'cone' | 'prism' | 'hemisphere' | 'half_cylinder' | 'torus' | 'custom' | 'text';
+export type ShapeType = 'cube' | 'sphere' | 'cylinder' | 'cone' | 'prism' | 'hemisphere' | 'half_cylinder' | 'ring' | 'torus' | 'custom' | 'text' | 'boolean' | 'revolve' | 'sweep'
+  | 'pyramid' | 'wedge' | 'capsule' | 'ellipsoid' | 'polygon_prism' | 'star' | 'tube' | 'gear' | 'thread' | 'pattern' | 'group';
+
+// 定义布尔运算类型：合并、切割、相交
+export type BooleanOpType = 'UNION' | 'SUBTRACT' | 'INTERSECT';
+
+// 二维点：草图中的工作平面局部坐标，或旋转体轮廓中的(半径, 高度)
+export type Point2 = [number, number];
+
+// 三维点：扫掠路径的控制点（对象局部坐标）
+export type Point3 = [number, number, number];
+
+// 扫掠路径类型：折线（直接连接控制点）或经过控制点的平滑样条
+export type SweepPathType = 'polyline' | 'spline';
+
+// 扫掠截面形状：圆形（使用radius）或矩形（使用width和height）
+export type SweepSection = 'circle' | 'rectangle';
+
+// 阵列类型：线性阵列沿间距向量依次平移，环形阵列绕旋转轴依次旋转
+export type PatternType = 'linear' | 'circular';
+
+// 螺纹对象的类型：外螺纹杆、带内螺纹的六角螺母、螺纹孔（作为切割工具在零件上切出内螺纹）
+export type ThreadType = 'rod' | 'nut' | 'hole';
 
 // 定义CAD对象接口
 export interface CADObject {
@@ -11,15 +33,42 @@ export interface CADObject {
   scale: [number, number, number]; // 对象缩放[sx, sy, sz]
   color: string; // 对象颜色（十六进制字符串）
   locked?: boolean; // 对象是否被锁定（可选属性）
+  isHole?: boolean; // 孔对象：以半透明条纹显示，合并和导出时从实体对象中减去
   params: { // 对象参数，根据不同类型有不同的参数
-    width?: number;   // 立方体的宽度
-    height?: number;  // 立方体的高度、圆柱体、圆锥体、三棱柱、半圆柱、文本的厚度/深度
-    depth?: number;   // 立方体的深度
-    radius?: number;  // 球体、圆柱体、圆锥体、三棱柱、半球体、半圆柱、空心圆柱、文本的半径/大小
-    tube?: number;    // 空心圆柱的内径
+    width?: number;   // 立方体、四棱锥、楔形、椭球的宽度，扫掠体矩形截面的宽度，螺母的对边宽度
+    height?: number;  // 立方体的高度、圆柱体、圆锥体、三棱柱、半圆柱、文本的厚度/深度、齿轮的齿宽、螺纹的长度、扫掠体矩形截面的高度，以及新增体素的总高度
+    depth?: number;   // 立方体、四棱锥、楔形、椭球的深度
+    radius?: number;  // 球体、圆柱体、圆锥体、三棱柱、半球体、半圆柱、空心圆柱、圆环体（环半径）、胶囊、圆管（外径）、文本的半径/大小，正多棱柱和星形的外接圆半径，扫掠体圆形截面的半径
+    tube?: number;    // 空心圆柱的内径、圆环体的截面半径
+    sides?: number;   // 正多棱柱的边数、星形的角数
+    innerRadius?: number; // 星形凹点所在圆的半径
+    thickness?: number;   // 圆管的壁厚
+    module?: number;        // 齿轮模数（分度圆直径 = 模数 × 齿数）
+    teeth?: number;         // 齿轮齿数
+    pressureAngle?: number; // 齿轮压力角（度，通常为20）
+    bore?: number;          // 齿轮轴孔直径（0表示无孔）
+    diameter?: number;      // 螺纹公称直径（大径）
+    pitch?: number;         // 螺距
+    tolerance?: number;     // 螺纹配合间隙（径向，外螺纹和内螺纹各让出一半）
+    threadType?: ThreadType; // 螺纹对象类型，未设置时为外螺纹杆
+    filletRadius?: number; // 立方体、圆柱体边缘的圆角半径（不超过最小尺寸的一半）
+    chamfer?: number;      // 立方体、圆柱体边缘的倒角距离（与圆角互斥，不超过最小尺寸的一半）
     text?: string;    // 文本内容
+    font?: string;    // 文本字体（fonts.ts中的字体id，未设置时使用默认字体）
+    segments?: number; // 曲面细分段数（球体、圆柱、圆锥、半球体、半圆柱、空心圆柱、圆环体、旋转体、扫掠体圆形截面、胶囊、椭球、圆管），影响视口显示、布尔运算和STL导出
+    profile?: Point2[]; // 旋转体的闭合轮廓，每个点为(到旋转轴的距离, 沿轴高度)
+    angle?: number;    // 旋转体的扫掠角度、圆环体的圆弧角度、环形阵列的总角度（度，0~360）
+    path?: Point3[];   // 扫掠体的路径控制点（至少两个）
+    pathType?: SweepPathType; // 扫掠体的路径类型，未设置时为折线
+    section?: SweepSection;   // 扫掠体的截面形状，未设置时为圆形
+    patternType?: PatternType; // 阵列类型，未设置时为线性阵列
+    count?: number;            // 阵列的实例数量（包括源对象本身）
+    spacing?: Point3;          // 线性阵列相邻实例之间的偏移
+    axis?: Point3;             // 环形阵列的旋转轴方向（经过阵列节点的原点）
   };
   geometryData?: any; // 存储布尔运算结果的THREE.BufferGeometry JSON数据
+  booleanOp?: BooleanOpType; // 布尔运算节点的运算类型（仅type为'boolean'时使用）
+  children?: CADObject[]; // 布尔运算节点的参与对象，第一个为主对象；阵列节点的源对象；组的成员（可以是组）；子对象的变换相对于该节点
 }
 
 // 定义工作平面状态接口
@@ -37,6 +86,30 @@ export interface WorkPlaneState {
   };
   flipOrientation: boolean; // 是否翻转方向
 }
+// 草图绘制工具：折线、三点圆弧、矩形、圆
+export type SketchTool = 'polyline' | 'arc' | 'rectangle' | 'circle';
+
+// 旋转体的旋转轴：草图平面的x轴或y轴（经过工作平面原点）
+export type RevolveAxis = 'x' | 'y';
+
+// 定义草图状态接口：在激活的工作平面上绘制闭合轮廓后拉伸成实体
+export interface SketchState {
+  tool: SketchTool; // 当前绘制工具
+  profiles: Point2[][]; // 已闭合的轮廓（内部的轮廓作为孔）
+  draft: Point2[]; // 正在绘制的折线/圆弧链，或矩形/圆的第一个点
+  arcMid: Point2 | null; // 圆弧工具已点击的经过点
+  extrudeHeight: number; // 拉伸高度（负值表示沿法向反方向）
+  revolveAxis: RevolveAxis; // 旋转时使用的轴
+  revolveAngle: number; // 旋转角度（度）
+}
+
+// 定义干涉检查结果：两个相互穿透的对象及其交集体积
+export interface ClashPair {
+  aId: string;
+  bId: string;
+  volume: number; // 交集体积（立方单位）
+}
+
 // 定义标签页状态接口
 export interface TabState {
   id: string; // 标签页唯一标识符
@@ -44,12 +117,14 @@ export interface TabState {
   objects: CADObject[]; // 该标签页中的对象数组
   selectedIds: string[]; // 该标签页中的选中对象ID
   transformMode: 'translate' | 'rotate' | 'scale'; // 该标签页中的变换模式
-  pendingOp: { type: 'UNION' | 'SUBTRACT', baseId: string } | null; // 待处理的布尔运算
+  pendingOp: { type: BooleanOpType, baseId: string } | null; // 待处理的布尔运算
   workPlane: WorkPlaneState; // 工作平面状态
   floorMode: boolean; // 基准面模式
   hasUnsavedChanges: boolean; // 是否有未保存的更改
   history: {objects: CADObject[], selectedIds: string[]}[]; // 操作历史
   historyIndex: number; // 当前历史索引
+  clashReport?: ClashPair[] | null; // 最近一次干涉检查的结果（null表示未显示报告）
+  sketch?: SketchState | null; // 正在进行的草图（仅在工作平面激活时有效）
 }
 
 // 默认颜色常量
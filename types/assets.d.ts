@@ -0,0 +1,5 @@
+// Vite资源导入的类型声明：?url 返回打包后资源文件的URL
+declare module '*?url' {
+  const url: string;
+  export default url;
+}
@@ -1,4 +1,8 @@
+import * as THREE from 'three';
+import { Brush, INTERSECTION } from 'three-bvh-csg';
+import { v4 as uuidv4 } from 'uuid';
 import { CADObject } from './types';
+import { createBooleanEvaluator, createGeometry, shareCachedResult } from './geometry';
 
 // Helper: Calculate Approximate Vertical Offset for initial placement
 // Returns the distance from center to bottom (Y-axis) for clamping
@@ -20,17 +24,225 @@ export const getObjectHalfHeight = (obj: CADObject): number => {
         case 'cone':
         case 'prism':
         case 'half_cylinder':
-        case 'torus': // Our custom torus is extruded cylinder-like
+        case 'ring': // Hollow cylinder, extruded annulus
+        case 'pyramid':
+        case 'wedge':
+        case 'capsule':
+        case 'ellipsoid':
+        case 'polygon_prism':
+        case 'star':
+        case 'tube':
+        case 'gear':
+        case 'thread':
+            // All of these are centered on their bounding box with height as the full Y extent
             baseHeight = (params.height || 0) / 2;
             break;
         case 'text':
             baseHeight = (params.radius || 20) / 2; // Rough approximation
             break;
+        case 'torus':
+            baseHeight = params.tube || 0;
+            break;
+        case 'revolve':
+            // Origin sits on the revolve axis; distance down to the lowest profile point
+            baseHeight = Math.max(0, -Math.min(...(params.profile || [[0, 0]]).map(p => p[1])));
+            break;
+        case 'sweep': {
+            // Lowest path point plus the cross-section extent around it
+            const extent = params.section === 'rectangle'
+                ? Math.hypot(params.width || 10, params.height || 5) / 2
+                : params.radius || 5;
+            baseHeight = Math.max(0, -Math.min(...(params.path || [[0, 0, 0]]).map(p => p[1]))) + extent;
+            break;
+        }
         case 'custom':
+        case 'boolean':
+        case 'pattern':
+        case 'group':
             // Custom objects are hard to guess without geometry, default to 0
             // The Scene logic will fix it on first interaction
             baseHeight = 0; 
             break;
     }
     return baseHeight * scale[1];
-};
\ No newline at end of file
+};
+
+// --- Object Tree Helpers ---
+// 布尔运算节点把参与运算的对象保存在children中，以下函数在整棵对象树中查找/更新对象
+
+export const findObjectById = (objects: CADObject[], id: string): CADObject | undefined => {
+    for (const obj of objects) {
+        if (obj.id === id) return obj;
+        if (obj.children) {
+            const found = findObjectById(obj.children, id);
+            if (found) return found;
+        }
+    }
+    return undefined;
+};
+
+// Returns the chain of nodes from the top-level object down to the object with the given id
+export const findObjectPath = (objects: CADObject[], id: string): CADObject[] => {
+    for (const obj of objects) {
+        if (obj.id === id) return [obj];
+        if (obj.children) {
+            const path = findObjectPath(obj.children, id);
+            if (path.length > 0) return [obj, ...path];
+        }
+    }
+    return [];
+};
+
+// Immutably replaces the object with the given id; ancestors get new identities so memoized geometry re-evaluates
+export const updateObjectInTree = (objects: CADObject[], id: string, updater: (obj: CADObject) => CADObject): CADObject[] => {
+    let changed = false;
+    const next = objects.map(obj => {
+        if (obj.id === id) {
+            const updated = updater(obj);
+            if (updated !== obj) changed = true;
+            return updated;
+        }
+        if (obj.children) {
+            const children = updateObjectInTree(obj.children, id, updater);
+            if (children !== obj.children) {
+                changed = true;
+                return { ...obj, children };
+            }
+        }
+        return obj;
+    });
+    return changed ? next : objects;
+};
+
+// Deep copy of an object and its children with fresh ids, so the copy can live alongside the original
+export const cloneObjectTree = (obj: CADObject): CADObject => {
+    if (!obj.children) return { ...obj, id: uuidv4() };
+    const children = obj.children.map(cloneObjectTree);
+    shareCachedResult(obj.children, children);
+    return { ...obj, id: uuidv4(), children };
+};
+
+// World matrix of a top-level object (or the parent-relative matrix of a child)
+export const getObjectMatrix = (obj: CADObject): THREE.Matrix4 => new THREE.Matrix4().compose(
+    new THREE.Vector3(...obj.position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...obj.rotation)),
+    new THREE.Vector3(...obj.scale)
+);
+
+// Returns the object with its transform replaced by the decomposition of matrix
+export const applyObjectMatrix = (obj: CADObject, matrix: THREE.Matrix4): CADObject => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    matrix.decompose(position, quaternion, scale);
+    const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+    return {
+        ...obj,
+        position: position.toArray() as [number, number, number],
+        rotation: [rotation.x, rotation.y, rotation.z],
+        scale: scale.toArray() as [number, number, number]
+    };
+};
+
+// 把组展开为其中的成员（嵌套的组同样展开），成员的变换换算到组所在的坐标系，其他对象原样保留
+// 组只能等比例缩放（不均匀缩放与成员的旋转组合会产生无法表示的剪切变形），因此换算结果是精确的
+export const flattenGroups = (objects: CADObject[]): CADObject[] => objects.flatMap(obj => {
+    if (obj.type !== 'group' || !obj.children) return [obj];
+    const matrix = getObjectMatrix(obj);
+    return flattenGroups(obj.children).map(child => applyObjectMatrix(child, matrix.clone().multiply(getObjectMatrix(child))));
+});
+
+// --- Overlap Detection ---
+
+// 小于该体积（立方单位）的交集视为仅接触而非穿透
+export const OVERLAP_EPSILON = 1e-3;
+
+// 计算封闭网格的体积（有向四面体求和），几何体坐标需已处于目标坐标系
+export const computeGeometryVolume = (geometry: THREE.BufferGeometry): number => {
+    const position = geometry.attributes.position;
+    if (!position) return 0;
+    const index = geometry.index;
+    const triCount = index ? index.count / 3 : position.count / 3;
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    let volume = 0;
+    for (let i = 0; i < triCount; i++) {
+        const i0 = index ? index.getX(i * 3) : i * 3;
+        const i1 = index ? index.getX(i * 3 + 1) : i * 3 + 1;
+        const i2 = index ? index.getX(i * 3 + 2) : i * 3 + 2;
+        a.fromBufferAttribute(position, i0);
+        b.fromBufferAttribute(position, i1);
+        c.fromBufferAttribute(position, i2);
+        volume += a.dot(b.cross(c)) / 6;
+    }
+    return Math.abs(volume);
+};
+
+// 计算两个笔刷（已设置好变换）的交集体积，边界框不相交时直接返回0
+export const computeOverlapVolume = (brush1: Brush, brush2: Brush): number => {
+    brush1.updateMatrixWorld();
+    brush2.updateMatrixWorld();
+
+    // 使用边界框进行快速预检测
+    const bbox1 = new THREE.Box3().setFromObject(brush1);
+    const bbox2 = new THREE.Box3().setFromObject(brush2);
+    if (!bbox1.intersectsBox(bbox2)) {
+        return 0; // 边界框不相交，几何体肯定不相交
+    }
+
+    // 边界框相交，计算真正的交集并测量其体积
+    const intersectionResult = createBooleanEvaluator().evaluate(brush1, brush2, INTERSECTION);
+    return computeGeometryVolume(intersectionResult.geometry);
+};
+
+// 检测两个笔刷（已设置好变换）是否相互穿透（仅表面接触不算）
+export const brushesOverlap = (brush1: Brush, brush2: Brush): boolean => {
+    try {
+        return computeOverlapVolume(brush1, brush2) > OVERLAP_EPSILON;
+    } catch (error) {
+        // 如果检测失败，仍然执行布尔运算
+        console.warn("交集检测失败，继续执行布尔运算", error);
+        return true;
+    }
+};
+
+// --- Worker Transfer ---
+// 几何体以独立的TypedArray传给Web Worker（可转移，不做结构化克隆）
+
+export interface SerializedGeometry {
+    position: Float32Array;
+    normal: Float32Array;
+    index: Uint32Array | null;
+    matrix?: number[]; // 几何体在父坐标系中的变换矩阵（列主序）
+}
+
+// 复制几何体数据，避免转移后源几何体（可能被缓存）的缓冲区被分离
+export const serializeGeometry = (geometry: THREE.BufferGeometry, matrix?: THREE.Matrix4): SerializedGeometry => {
+    const normalAttr = geometry.attributes.normal;
+    return {
+        position: new Float32Array(geometry.attributes.position.array),
+        normal: normalAttr ? new Float32Array(normalAttr.array) : new Float32Array(geometry.attributes.position.count * 3),
+        index: geometry.index ? new Uint32Array(geometry.index.array) : null,
+        matrix: matrix ? matrix.toArray() : undefined
+    };
+};
+
+export const deserializeGeometry = (data: SerializedGeometry): THREE.BufferGeometry => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(data.position, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(data.normal, 3));
+    if (data.index) geometry.setIndex(new THREE.BufferAttribute(data.index, 1));
+    return geometry;
+};
+
+export const getTransferables = (data: SerializedGeometry): ArrayBuffer[] => {
+    const buffers = [data.position.buffer, data.normal.buffer] as ArrayBuffer[];
+    if (data.index) buffers.push(data.index.buffer as ArrayBuffer);
+    return buffers;
+};
+
+// 将对象序列化为工作线程可用的带变换几何体
+export const serializeObject = (obj: CADObject): SerializedGeometry => {
+    return serializeGeometry(createGeometry(obj), getObjectMatrix(obj));
+};